@@ -7,13 +7,16 @@ import { AdminDashboard } from './components/AdminDashboard';
 import { Toast } from './components/common/Toast';
 import { LoginPage } from './components/LoginPage';
 import ErrorBoundary from './components/ErrorBoundary';
-import type { View } from './types';
+import type { NavigationTarget, View } from './types';
 import { Header } from './components/layout/Header';
 import { SplashScreen } from './components/common/SplashScreen';
 import { ProfilePage } from './components/ProfilePage';
+import { GlobalSearch } from './components/GlobalSearch';
 
 const AppContent: React.FC = () => {
   const [currentView, setCurrentView] = useState<View>('chat');
+  // Set when another view asks the chat or video view to open a specific message or segment.
+  const [navigationTarget, setNavigationTarget] = useState<NavigationTarget | null>(null);
   const { currentUser, isLoadingUser } = useAppContext();
   
   const [installPrompt, setInstallPrompt] = useState<any>(null);
@@ -60,13 +63,31 @@ const AppContent: React.FC = () => {
     return <LoginPage />;
   }
 
+  const openTarget = (target: NavigationTarget) => {
+    setNavigationTarget(target);
+    setCurrentView(target.type === 'message' ? 'chat' : 'video');
+  };
+
+  const clearTarget = () => setNavigationTarget(null);
+
   const renderView = () => {
     switch (currentView) {
-      case 'chat': return <ChatInterface />;
-      case 'video': return <VideoAnalyzer />;
+      case 'chat': return (
+        <ChatInterface
+          target={navigationTarget?.type === 'message' ? navigationTarget : null}
+          onTargetHandled={clearTarget}
+        />
+      );
+      case 'video': return (
+        <VideoAnalyzer
+          target={navigationTarget?.type === 'segment' ? navigationTarget : null}
+          onTargetHandled={clearTarget}
+        />
+      );
+      case 'search': return <GlobalSearch onOpenResult={openTarget} />;
       case 'admin': return <AdminDashboard />;
       case 'profile': return <ProfilePage />;
-      default: return <ChatInterface />;
+      default: return <ChatInterface target={null} onTargetHandled={clearTarget} />;
     }
   };
 
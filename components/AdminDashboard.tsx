@@ -1,8 +1,9 @@
 import React, { useState, useMemo, useEffect } from 'react';
 import { UserManagement } from './UserManagement';
+import { FeedbackReview } from './FeedbackReview';
 import { Card } from './common/Card';
 import { useAppContext } from '../contexts/AppContext';
-import type { AIConfiguration, AiModel, TranscriptionConfig } from '../types';
+import type { AIConfiguration, AiModel, PersonaLimits, TranscriptionConfig } from '../types';
 import { Toast } from './common/Toast';
 import { SaveIcon } from './icons/SaveIcon';
 import { SettingsIcon } from './icons/SettingsIcon';
@@ -12,6 +13,9 @@ import { useForm, Validator } from '../hooks/useForm';
 import { Tooltip } from './common/Tooltip';
 import { InfoIcon } from './icons/InfoIcon';
 import { LoaderIcon } from './icons/LoaderIcon';
+import { UserIcon } from './icons/UserIcon';
+import { ThumbsUpIcon } from './icons/ThumbsUpIcon';
+import { usePersonas } from '../hooks/usePersonas';
 
 // Local state for the form, using strings for numeric inputs
 type AIConfigFormState = Record<AiModel, {
@@ -334,9 +338,132 @@ const TranscriptionConfigEditor: React.FC = () => {
     );
 };
 
+// Local state for the form, using strings for numeric inputs
+type PersonaLimitsFormState = Record<keyof PersonaLimits, string>;
+
+// Validator for the Persona Limits form
+const validatePersonaLimits: Validator<PersonaLimitsFormState> = (values) => {
+    const errors: Partial<Record<keyof PersonaLimitsFormState, string>> = {};
+    const minTemp = parseFloat(values.minTemperature);
+    const maxTemp = parseFloat(values.maxTemperature);
+    if (isNaN(minTemp) || minTemp < 0 || minTemp > 2) {
+        errors.minTemperature = 'Must be a number between 0 and 2.';
+    }
+    if (isNaN(maxTemp) || maxTemp < 0 || maxTemp > 2) {
+        errors.maxTemperature = 'Must be a number between 0 and 2.';
+    } else if (!isNaN(minTemp) && maxTemp < minTemp) {
+        errors.maxTemperature = 'Must not be lower than the minimum.';
+    }
+    const length = parseInt(values.maxSystemPromptLength, 10);
+    if (isNaN(length) || length <= 0 || !Number.isInteger(Number(values.maxSystemPromptLength))) {
+        errors.maxSystemPromptLength = 'Must be a positive whole number.';
+    }
+    return errors;
+};
+
+const PersonaLimitsEditor: React.FC = () => {
+    const { limits, isLoading, saveLimits } = usePersonas();
+    const [showSaveToast, setShowSaveToast] = useState(false);
+    const [isSaving, setIsSaving] = useState(false);
+
+    const initialFormState: PersonaLimitsFormState = useMemo(() => ({
+        minTemperature: String(limits.minTemperature),
+        maxTemperature: String(limits.maxTemperature),
+        maxSystemPromptLength: String(limits.maxSystemPromptLength),
+    }), [limits]);
+
+    const { values, errors, isDirty, isValid, handleChange, resetForm } = useForm(initialFormState, validatePersonaLimits);
+
+    useEffect(() => {
+        resetForm();
+    }, [limits]);
+
+    const handleSaveChanges = async () => {
+        if (!isValid) {
+            alert("Please fix the errors before saving.");
+            return;
+        }
+
+        setIsSaving(true);
+        try {
+            await saveLimits({
+                minTemperature: parseFloat(values.minTemperature),
+                maxTemperature: parseFloat(values.maxTemperature),
+                maxSystemPromptLength: parseInt(values.maxSystemPromptLength, 10),
+            });
+            setShowSaveToast(true);
+            resetForm();
+        } catch (error) {
+            alert(`Error saving limits: ${error instanceof Error ? error.message : "Unknown error"}`);
+        } finally {
+            setIsSaving(false);
+        }
+    };
+
+    const fields: { name: keyof PersonaLimitsFormState; label: string; step: string; tooltip: string }[] = [
+        { name: 'minTemperature', label: 'Min Temperature', step: '0.1', tooltip: 'The lowest temperature a persona may use.' },
+        { name: 'maxTemperature', label: 'Max Temperature', step: '0.1', tooltip: 'The highest temperature a persona may use.' },
+        { name: 'maxSystemPromptLength', label: 'Max System Prompt Length', step: '100', tooltip: 'The longest system prompt a persona may have, in characters.' },
+    ];
+
+    return (
+        <>
+            <p className="mb-4 text-sm text-text-secondary">
+                Users can create personas with their own system prompt and temperature. Values outside these ranges are capped, including on personas saved earlier.
+                Shared personas are published from the Persona button in the chat.
+            </p>
+            <div className="relative">
+                {(isSaving || isLoading) && (
+                    <div className="absolute inset-0 bg-card/70 backdrop-blur-sm z-10 flex items-center justify-center rounded-lg">
+                        <div className="flex items-center gap-3 text-lg font-semibold">
+                            <LoaderIcon className="w-6 h-6 animate-spin text-primary" />
+                            <span>{isSaving ? 'Saving Persona Limits...' : 'Loading Persona Limits...'}</span>
+                        </div>
+                    </div>
+                )}
+                <fieldset disabled={isSaving || isLoading}>
+                    <div className="grid grid-cols-1 md:grid-cols-3 gap-x-6 gap-y-4">
+                        {fields.map(field => (
+                            <div key={field.name}>
+                                <label htmlFor={field.name} className="flex items-center gap-2 text-sm font-medium text-text-secondary mb-1">
+                                    {field.label}
+                                    <Tooltip content={field.tooltip}>
+                                        <InfoIcon className="w-4 h-4 text-text-secondary cursor-help" />
+                                    </Tooltip>
+                                </label>
+                                <input
+                                    id={field.name}
+                                    name={field.name}
+                                    type="number"
+                                    step={field.step}
+                                    value={values[field.name]}
+                                    onChange={handleChange}
+                                    className={`w-full bg-background border rounded-md text-white p-2 focus:outline-none focus:ring-2 font-mono ${errors[field.name] ? 'border-error ring-error' : 'border-border focus:ring-primary focus:border-primary'}`}
+                                />
+                                {errors[field.name] && <p className="mt-1 text-xs text-error">{errors[field.name]}</p>}
+                            </div>
+                        ))}
+                    </div>
+                </fieldset>
+            </div>
+            <div className="mt-6 text-right">
+                <button
+                    onClick={handleSaveChanges}
+                    disabled={!isDirty || !isValid || isSaving}
+                    className="inline-flex items-center gap-2 px-6 py-2 bg-primary text-white rounded-lg hover:bg-primary-hover font-semibold shadow-md transition-transform transform hover:scale-105 disabled:opacity-50 disabled:cursor-not-allowed disabled:scale-100"
+                >
+                    {isSaving ? <LoaderIcon className="w-5 h-5 animate-spin"/> : <SaveIcon className="w-5 h-5"/>}
+                    {isSaving ? 'Saving...' : 'Save Changes'}
+                </button>
+            </div>
+            {showSaveToast && <Toast message="Persona limits saved!" onClose={() => setShowSaveToast(false)} />}
+        </>
+    );
+};
+
 
 export const AdminDashboard: React.FC = () => {
-    const [activeTab, setActiveTab] = useState<'ai' | 'transcription'>('ai');
+    const [activeTab, setActiveTab] = useState<'ai' | 'transcription' | 'personas' | 'feedback'>('ai');
     
     return (
         <div className="h-full flex flex-col bg-transparent text-text">
@@ -365,11 +492,33 @@ export const AdminDashboard: React.FC = () => {
                         >
                             <SlidersIcon className="w-5 h-5" /> Transcription Pipeline
                         </button>
+                        <button
+                            onClick={() => setActiveTab('personas')}
+                            className={`flex items-center gap-3 px-4 py-3 font-medium transition-colors -mb-px ${
+                                activeTab === 'personas'
+                                    ? 'border-b-2 border-primary text-primary'
+                                    : 'text-text-secondary hover:text-white'
+                            }`}
+                        >
+                            <UserIcon className="w-5 h-5" /> Persona Limits
+                        </button>
+                        <button
+                            onClick={() => setActiveTab('feedback')}
+                            className={`flex items-center gap-3 px-4 py-3 font-medium transition-colors -mb-px ${
+                                activeTab === 'feedback'
+                                    ? 'border-b-2 border-primary text-primary'
+                                    : 'text-text-secondary hover:text-white'
+                            }`}
+                        >
+                            <ThumbsUpIcon className="w-5 h-5" /> Response Feedback
+                        </button>
                     </div>
 
                     <div>
                         {activeTab === 'ai' && <AIConfigEditor />}
                         {activeTab === 'transcription' && <TranscriptionConfigEditor />}
+                        {activeTab === 'personas' && <PersonaLimitsEditor />}
+                        {activeTab === 'feedback' && <FeedbackReview />}
                     </div>
                 </Card>
             </main>
@@ -1,35 +1,213 @@
-import React, { useState, useRef, useEffect, useMemo } from 'react';
+import React, { useState, useRef, useEffect, useMemo, useCallback } from 'react';
 import { useAppContext } from '../contexts/AppContext';
 import { ChatInput } from './common/ChatInput';
 import { ChatBubble } from './common/ChatBubble';
-import { sendAIMessageStream } from '../services/aiService';
-import { exportChatToTxt, exportChatToCsv } from '../utils/exportUtils';
-import type { Message, MessageFile } from '../types';
+import { describeConversation, sendAIMessageStream, summarizeMessages } from '../services/aiService';
+import { chatService } from '../services/chatService';
+import {
+    exportChatToTxt,
+    exportChatToCsv,
+    exportChatToMarkdown,
+    exportChatToPdf,
+    exportConversationToJson,
+    parseConversationExport,
+} from '../utils/exportUtils';
+import type { AiModel, Message, MessageFeedback, NavigationTarget, Persona } from '../types';
 import { FileDownIcon } from './icons/FileDownIcon';
+import { UploadIcon } from './icons/UploadIcon';
 import { AIError } from '../types';
 import { ChevronDownIcon } from './icons/ChevronDownIcon';
 import { SearchIcon } from './icons/SearchIcon';
 import { XIcon } from './icons/XIcon';
+import { ConversationList } from './ConversationList';
+import { ModelComparison } from './ModelComparison';
+import { ColumnsIcon } from './icons/ColumnsIcon';
+import { ContextMeter } from './ContextMeter';
+import { useVideoHistory } from '../hooks/useVideoHistory';
+import { PersonaManager } from './PersonaManager';
+import { UserIcon } from './icons/UserIcon';
+import { useConversations, DEFAULT_CONVERSATION_TITLE } from '../hooks/useConversations';
+import { usePersonas } from '../hooks/usePersonas';
+import { useReadAloud } from '../hooks/useReadAloud';
+import { useOnlineStatus } from '../hooks/useOnlineStatus';
+import { useVirtualList } from '../hooks/useVirtualList';
+import { AI_MODELS, AI_MODEL_LABELS, DEFAULT_AI_MODEL } from '../utils/aiModels';
+import { getActiveThread, getSiblingMap, getPathToMessage, selectBranches } from '../utils/chatTree';
+import { saveAttachments, getAttachmentFiles, deleteAttachments } from '../utils/attachmentStore';
+import { ChatStreamError, readChatStream } from '../utils/chatStream';
+import { getPersonaConfig } from '../utils/personas';
+import { getSystemPromptVersion } from '../utils/feedback';
+import { estimateTokens, getContextBudget } from '../utils/tokenUtils';
+import {
+    applyContextSummary,
+    estimateContextTokens,
+    extendContextSummary,
+    selectMessagesToSummarize,
+} from '../utils/contextSummary';
+import { bindCommands } from '../utils/slashCommands';
+import { CHAT_COMMANDS } from '../utils/chatCommands';
+import { normalizeGeneratedTitle, normalizeTags } from '../utils/conversationTags';
+import {
+    attachReply,
+    detachReply,
+    discardQueuedMessage,
+    getQueuedMessages,
+    isConnectionError,
+    queueMessage,
+    removeQueuedMessage,
+} from '../utils/outbox';
 
-export const ChatInterface: React.FC = () => {
-    const [messages, setMessages] = useState<Message[]>([]);
+const MAX_DERIVED_TITLE_LENGTH = 40;
+
+// Uses the opening line of the first message as a placeholder title.
+const deriveTitle = (text: string, fileName?: string) => {
+    const firstLine = text.trim().split('\n')[0] || fileName || DEFAULT_CONVERSATION_TITLE;
+    return firstLine.length > MAX_DERIVED_TITLE_LENGTH
+        ? `${firstLine.slice(0, MAX_DERIVED_TITLE_LENGTH).trimEnd()}…`
+        : firstLine;
+};
+
+// How long a message opened from search stays highlighted.
+const TARGET_HIGHLIGHT_MS = 2500;
+
+// Height assumed for a message before it has been rendered and measured.
+const MESSAGE_SIZE_ESTIMATE = 120;
+
+// When the context budget is exceeded, older turns are summarized until the history fits in this share of it.
+const SUMMARY_TARGET_RATIO = 0.5;
+
+type ChatContext = ReturnType<typeof applyContextSummary>;
+
+interface ChatInterfaceProps {
+    target: Extract<NavigationTarget, { type: 'message' }> | null; // A message to open, e.g. from global search
+    onTargetHandled: () => void;
+}
+
+export const ChatInterface: React.FC<ChatInterfaceProps> = ({ target, onTargetHandled }) => {
+    const {
+        conversations,
+        activeConversation,
+        isSyncing,
+        selectConversation,
+        createConversation,
+        importConversation,
+        renameConversation,
+        setConversationTags,
+        deleteConversation,
+        updateConversation,
+        setConversationMessages,
+    } = useConversations();
+    // The messages of the currently selected branch, from the first message to the latest reply.
+    const messages = useMemo(() => getActiveThread(activeConversation), [activeConversation]);
+    const siblingMap = useMemo(() => getSiblingMap(activeConversation?.messages ?? []), [activeConversation]);
+    // The model picked before a conversation exists; afterwards the conversation remembers its own.
+    const [draftModel, setDraftModel] = useState<AiModel>(DEFAULT_AI_MODEL);
+    const selectedModel = activeConversation?.model ?? draftModel;
+    const [draftPersonaId, setDraftPersonaId] = useState<string | undefined>(undefined);
+    const {
+        personas,
+        limits: personaLimits,
+        isLoading: isLoadingPersonas,
+        error: personasError,
+        savePersona,
+        deletePersona,
+    } = usePersonas();
+    const activePersonaId = activeConversation ? activeConversation.personaId : draftPersonaId;
+    const activePersona = personas.find(persona => persona.id === activePersonaId) ?? null;
+    const [isPersonaManagerOpen, setIsPersonaManagerOpen] = useState(false);
     const [isLoading, setIsLoading] = useState(false);
     const [error, setError] = useState<string | null>(null);
     const [isExportMenuOpen, setIsExportMenuOpen] = useState(false);
     const [searchQuery, setSearchQuery] = useState('');
     const { aiConfig } = useAppContext();
-    const messagesEndRef = useRef<HTMLDivElement>(null);
     const exportMenuRef = useRef<HTMLDivElement>(null);
+    const abortControllerRef = useRef<AbortController | null>(null);
+    const chatAreaRef = useRef<HTMLDivElement>(null);
+    const importInputRef = useRef<HTMLInputElement>(null);
+    const pendingScrollIdRef = useRef<string | null>(null);
+    const [highlightedMessageId, setHighlightedMessageId] = useState<string | null>(null);
+    const [isComparisonOpen, setIsComparisonOpen] = useState(false);
+    const [isSummarizing, setIsSummarizing] = useState(false);
+    const [videoHistory] = useVideoHistory();
+    const readAloud = useReadAloud();
 
-    const scrollToBottom = () => {
-        messagesEndRef.current?.scrollIntoView({ behavior: 'smooth' });
-    };
+    const isOnline = useOnlineStatus();
+    const isFlushingOutboxRef = useRef(false);
+    // The outbox is sent over several renders, so it reads conversations from here rather than a stale closure.
+    const conversationsRef = useRef(conversations);
+    conversationsRef.current = conversations;
+    // The parent passes a new callback on every render; reading it from here keeps the target effect from re-running.
+    const onTargetHandledRef = useRef(onTargetHandled);
+    onTargetHandledRef.current = onTargetHandled;
+
+    // The global model configuration, with the conversation's persona applied.
+    const getModelConfig = (model: AiModel, personaId = activePersonaId) => getPersonaConfig(
+        aiConfig[model],
+        personas.find(persona => persona.id === personaId),
+        personaLimits
+    );
+
+    const filteredMessages = useMemo(() => {
+        if (!searchQuery.trim()) {
+            return messages;
+        }
+        return messages.filter(msg =>
+            msg.text.toLowerCase().includes(searchQuery.toLowerCase())
+        );
+    }, [messages, searchQuery]);
+
+    // Only the messages near the viewport are rendered, so long conversations stay responsive.
+    const messageList = useVirtualList({
+        count: filteredMessages.length,
+        estimateSize: MESSAGE_SIZE_ESTIMATE,
+        getItemKey: index => filteredMessages[index].id,
+    });
 
+    const { scrollToIndex } = messageList;
+    const scrollToBottom = useCallback(() => {
+        scrollToIndex(filteredMessages.length - 1, { align: 'end', behavior: 'smooth' });
+    }, [scrollToIndex, filteredMessages.length]);
+
+    // Follow new messages, or scroll to the message opened from search once its branch is shown.
     useEffect(() => {
+        const pendingId = pendingScrollIdRef.current;
+        if (pendingId) {
+            // The branch holding the target may only be selected after this update, so keep trying until it is.
+            const index = filteredMessages.findIndex(msg => msg.id === pendingId);
+            if (index !== -1) {
+                scrollToIndex(index, { align: 'center' });
+                pendingScrollIdRef.current = null;
+            }
+            return;
+        }
         if (!searchQuery) {
             scrollToBottom();
         }
-    }, [messages, searchQuery]);
+    }, [filteredMessages, searchQuery, scrollToIndex, scrollToBottom]);
+
+    // Open the requested message: select its conversation and branch, then scroll to it.
+    useEffect(() => {
+        if (!target) return;
+        onTargetHandledRef.current();
+        const conversation = conversationsRef.current.find(c => c.id === target.conversationId);
+        const path = conversation ? getPathToMessage(conversation, target.messageId) : [];
+        if (!conversation || path.length === 0) {
+            setError('That message no longer exists.');
+            return;
+        }
+        setSearchQuery('');
+        setError(null);
+        selectConversation(conversation.id);
+        updateConversation(conversation.id, c => ({ ...c, activeBranches: selectBranches(c, path) }));
+        pendingScrollIdRef.current = target.messageId;
+        setHighlightedMessageId(target.messageId);
+    }, [target, selectConversation, updateConversation]);
+
+    useEffect(() => {
+        if (!highlightedMessageId) return;
+        const timer = setTimeout(() => setHighlightedMessageId(null), TARGET_HIGHLIGHT_MS);
+        return () => clearTimeout(timer);
+    }, [highlightedMessageId]);
 
     useEffect(() => {
         const handleClickOutside = (event: MouseEvent) => {
@@ -43,148 +221,689 @@ export const ChatInterface: React.FC = () => {
         };
     }, []);
 
-    const filteredMessages = useMemo(() => {
-        if (!searchQuery.trim()) {
-            return messages;
-        }
-        return messages.filter(msg =>
-            msg.text.toLowerCase().includes(searchQuery.toLowerCase())
-        );
-    }, [messages, searchQuery]);
+    // The context the next message in the open conversation would be sent with.
+    const activeContext = useMemo(
+        () => applyContextSummary(messages, activeConversation?.contextSummary),
+        [messages, activeConversation?.contextSummary]
+    );
+    const contextBudget = getContextBudget(selectedModel, getModelConfig(selectedModel));
+    const canSummarize = selectMessagesToSummarize(activeContext.history, selectedModel, 0).length > 0;
+
+    /**
+     * Rolls the oldest turns of `context` into the conversation's summary until the
+     * rest fits in `targetTokens`, and saves the new summary.
+     * @returns The context to send from now on.
+     */
+    const summarizeContext = async (conversationId: string, model: AiModel, context: ChatContext, targetTokens: number, signal?: AbortSignal) => {
+        const messagesToSummarize = selectMessagesToSummarize(context.history, model, targetTokens);
+        if (messagesToSummarize.length === 0) return context;
+        const text = await summarizeMessages(model, messagesToSummarize, context.summary?.text, signal);
+        const summary = extendContextSummary(context.summary, messagesToSummarize, text);
+        updateConversation(conversationId, conversation => ({ ...conversation, contextSummary: summary }));
+        return applyContextSummary(context.history, summary);
+    };
 
-    const handleSendMessage = async (text: string, file?: File) => {
-        if (!text.trim() && !file) return;
+    /**
+     * Names and tags a conversation from its first exchange. The title derived from
+     * the first message stays if the user has renamed the conversation meanwhile, or if this fails.
+     */
+    const generateTitleAndTags = async (conversationId: string, model: AiModel, prompt: string, reply: string) => {
+        try {
+            const generated = await describeConversation(model, [{ role: 'user', text: prompt }, { role: 'model', text: reply }]);
+            const title = normalizeGeneratedTitle(generated.title);
+            updateConversation(conversationId, conversation => ({
+                ...conversation,
+                ...(title && !conversation.isTitleCustom && { title }),
+                tags: conversation.tags ?? normalizeTags(generated.tags),
+            }));
+        } catch (err) {
+            console.error('Failed to generate a title and tags:', err);
+        }
+    };
 
+    /**
+     * Streams a model reply into the placeholder message `modelMessageId`.
+     * `history` holds the turns that precede the prompt on the active branch.
+     * If it no longer fits the model's context budget, older turns are summarized first.
+     * If the request can't reach the server at all, `onConnectionLost` is called
+     * instead of turning the placeholder into an error.
+     * @returns Whether the request was sent.
+     */
+    const streamReply = async (
+        conversationId: string,
+        modelMessageId: string,
+        model: AiModel,
+        text: string,
+        files: File[],
+        history: Message[],
+        onConnectionLost?: () => void
+    ): Promise<boolean> => {
         setSearchQuery(''); // Clear search on new message
         setError(null);
         setIsLoading(true);
+        abortControllerRef.current = new AbortController();
+
+        // More efficient state update: avoids mapping the entire array on every event.
+        const updateReply = (changes: Partial<Message>) => setConversationMessages(conversationId, prev => {
+            const messageIndex = prev.findIndex(msg => msg.id === modelMessageId);
+            if (messageIndex === -1) return prev;
+
+            const newMessages = [...prev];
+            newMessages[messageIndex] = { ...prev[messageIndex], ...changes };
+            return newMessages;
+        });
+
+        readAloud.startFollowing(modelMessageId);
+        // A queued message may belong to a conversation other than the open one.
+        const conversation = conversationsRef.current.find(c => c.id === conversationId);
+        const personaId = conversation ? conversation.personaId : activePersonaId;
+        let hasReceivedReply = false;
+
+        try {
+            const config = getModelConfig(model, personaId);
+            // Kept on the reply so feedback reports the settings it was actually generated with.
+            updateReply({ generationConfig: config, ...(personaId && { personaId }) });
+            const signal = abortControllerRef.current.signal;
+            const budget = getContextBudget(model, config);
+            let context = applyContextSummary(history, conversation?.contextSummary);
+            if (estimateContextTokens(context.history, context.summary?.text, model) + estimateTokens(text, model) > budget) {
+                try {
+                    context = await summarizeContext(conversationId, model, context, budget * SUMMARY_TARGET_RATIO, signal);
+                } catch (err) {
+                    if (err instanceof DOMException && err.name === 'AbortError') throw err;
+                    // Send anyway; the oldest turns are then left out to fit the budget.
+                    console.error('Failed to summarize older messages:', err);
+                }
+            }
+            const stream = sendAIMessageStream(model, text, files, config, {
+                history: context.history,
+                contextBudget: budget,
+                summary: context.summary?.text,
+                signal,
+            });
+            const reply = await readChatStream(stream, partial => {
+                hasReceivedReply = true;
+                updateReply({
+                    text: partial.text,
+                    metrics: partial.metrics,
+                    ...(partial.citations.length > 0 && { citations: partial.citations }),
+                });
+                readAloud.follow(modelMessageId, partial.text);
+            });
+            readAloud.finishFollowing(modelMessageId, reply.text);
+            if (!reply.isDone) {
+                // The connection closed before the backend signalled the end of the reply.
+                updateReply({ interrupted: true });
+            } else if (history.length === 0 && !conversation?.tags) {
+                generateTitleAndTags(conversationId, model, text, reply.text);
+            }
+        } catch (err) {
+            readAloud.stopFollowing(modelMessageId);
+            if (err instanceof DOMException && err.name === 'AbortError') {
+                // Keep whatever was streamed so far and flag the reply as cut short.
+                updateReply({ interrupted: true });
+                return true;
+            }
+            if (err instanceof ChatStreamError && err.reply.text) {
+                // Keep what was generated before the backend failed, and say why it stopped.
+                setError(err.message);
+                updateReply({ metrics: err.reply.metrics, interrupted: true, interruptionReason: err.message });
+                return true;
+            }
+            if (onConnectionLost && !hasReceivedReply && isConnectionError(err)) {
+                onConnectionLost();
+                return false;
+            }
+            const errorMessage = err instanceof AIError ? err.message : 'An unexpected error occurred.';
+            setError(errorMessage);
+            updateReply({ text: `Error: ${errorMessage}`, isError: true });
+        } finally {
+            setIsLoading(false);
+            abortControllerRef.current = null;
+        }
+        return true;
+    };
+
+    const handleSendMessage = async (text: string, files: File[] = []) => {
+        if (!text.trim() && files.length === 0) return;
+
+        const conversationId = activeConversation?.id ?? createConversation(selectedModel, activePersonaId).id;
+        const model = selectedModel;
+        const isFirstMessage = messages.length === 0;
         
         const userMessageId = Date.now().toString();
-        const messageFile: MessageFile | undefined = file ? { name: file.name, type: file.type } : undefined;
+        const messageFiles = await saveAttachments(files);
+        const parentId = messages.length > 0 ? messages[messages.length - 1].id : null;
+
+        const userMessage: Message = { id: userMessageId, text, sender: 'user', files: messageFiles, parentId, createdAt: Date.now() };
+        const nextTitle = (conversationTitle: string) => isFirstMessage && conversationTitle === DEFAULT_CONVERSATION_TITLE
+            ? deriveTitle(text, files[0]?.name)
+            : conversationTitle;
+        const queue = () => queueMessage({ messageId: userMessageId, conversationId, model, text, queuedAt: Date.now() })
+            .catch(error => console.error('Failed to queue the message:', error));
+
+        // Messages go out in order, so anything sent after a queued message waits behind it.
+        if (!navigator.onLine || messages[messages.length - 1]?.pending) {
+            const pendingMessage: Message = { ...userMessage, pending: true };
+            updateConversation(conversationId, conversation => ({
+                ...conversation,
+                title: nextTitle(conversation.title),
+                messages: [...conversation.messages, pendingMessage],
+                activeBranches: selectBranches(conversation, [pendingMessage]),
+            }));
+            await queue();
+            if (navigator.onLine) flushOutbox();
+            return;
+        }
 
-        const userMessage: Message = { id: userMessageId, text, sender: 'user', file: messageFile };
-        
         const modelMessageId = (Date.now() + 1).toString();
-        const modelMessage: Message = { id: modelMessageId, text: '', sender: 'model' };
+        const modelMessage: Message = { id: modelMessageId, text: '', sender: 'model', model, parentId: userMessageId, createdAt: Date.now() };
         
-        setMessages(prev => [...prev, userMessage, modelMessage]);
+        updateConversation(conversationId, conversation => ({
+            ...conversation,
+            title: nextTitle(conversation.title),
+            messages: [...conversation.messages, userMessage, modelMessage],
+            activeBranches: selectBranches(conversation, [userMessage, modelMessage]),
+        }));
+
+        await streamReply(conversationId, modelMessageId, model, text, files, messages, () => {
+            updateConversation(conversationId, conversation => detachReply(conversation, userMessageId, modelMessageId));
+            queue();
+        });
+    };
 
+    // Called by the outbox loop so each queued message goes out with the current config and persona.
+    const streamReplyRef = useRef(streamReply);
+    streamReplyRef.current = streamReply;
+
+    /**
+     * Sends the queued messages one at a time, oldest first. Stops at the first one
+     * that still can't reach the server, so later messages don't overtake it.
+     * The queue is re-read after each message to pick up ones queued meanwhile.
+     */
+    const flushOutbox = useCallback(async () => {
+        if (isFlushingOutboxRef.current) return;
+        isFlushingOutboxRef.current = true;
         try {
-            const stream = sendAIMessageStream('gemini', text, file, aiConfig.gemini);
-            let responseText = '';
-            for await (const chunk of stream) {
-                responseText += chunk;
-                // More efficient state update: avoids mapping the entire array on every chunk.
-                setMessages(prev => {
-                    const messageIndex = prev.findIndex(msg => msg.id === modelMessageId);
-                    if (messageIndex === -1) return prev;
-                    
-                    const newMessages = [...prev];
-                    newMessages[messageIndex] = { ...prev[messageIndex], text: responseText };
-                    return newMessages;
+            while (true) {
+                const [entry] = await getQueuedMessages();
+                if (!entry) break;
+                const conversation = conversationsRef.current.find(c => c.id === entry.conversationId);
+                const userMessage = conversation?.messages.find(msg => msg.id === entry.messageId);
+                if (!conversation || !userMessage?.pending) {
+                    // Deleted (or already sent) in the meantime.
+                    await removeQueuedMessage(entry.messageId);
+                    continue;
+                }
+
+                const reply: Message = { id: Date.now().toString(), text: '', sender: 'model', model: entry.model, parentId: userMessage.id, createdAt: Date.now() };
+                const history = getPathToMessage(conversation, userMessage.id).slice(0, -1);
+                updateConversation(conversation.id, c => attachReply(c, userMessage.id, reply));
+                const files = await getAttachmentFiles(userMessage.files);
+                const isSent = await streamReplyRef.current(conversation.id, reply.id, entry.model, userMessage.text, files, history, () => {
+                    updateConversation(conversation.id, c => detachReply(c, userMessage.id, reply.id));
                 });
+                if (!isSent) {
+                    setError('Could not reach the server. Queued messages will be sent when the connection is back.');
+                    break;
+                }
+                await removeQueuedMessage(entry.messageId);
             }
         } catch (err) {
-            const errorMessage = err instanceof AIError ? err.message : 'An unexpected error occurred.';
-            setError(errorMessage);
-            setMessages(prev =>
-                prev.map(msg =>
-                    msg.id === modelMessageId ? { ...msg, text: `Error: ${errorMessage}` } : msg
-                )
+            console.error('Failed to send queued messages:', err);
+        } finally {
+            isFlushingOutboxRef.current = false;
+        }
+    }, [updateConversation]);
+
+    // Send whatever was queued as soon as the browser is back online (and on load).
+    useEffect(() => {
+        if (isOnline) flushOutbox();
+    }, [isOnline, flushOutbox]);
+
+    const handleDiscardQueued = async (message: Message) => {
+        if (!activeConversation) return;
+        updateConversation(activeConversation.id, conversation => discardQueuedMessage(conversation, message.id));
+        await removeQueuedMessage(message.id).catch(error => console.error('Failed to remove the queued message:', error));
+        await deleteAttachments((message.files || []).map(file => file.id).filter((id): id is string => !!id));
+    };
+
+    /**
+     * Asks the model again for the prompt behind `modelMessage`, adding the new answer
+     * as a sibling branch. Attachments are re-sent if they are still stored on this device.
+     */
+    const handleRegenerate = async (modelMessage: Message) => {
+        if (!activeConversation) return;
+        const index = messages.findIndex(msg => msg.id === modelMessage.id);
+        const promptMessage = messages[index - 1];
+        if (index < 1 || promptMessage.sender !== 'user') return;
+
+        const model = selectedModel;
+        const newReply: Message = { id: Date.now().toString(), text: '', sender: 'model', model, parentId: promptMessage.id, createdAt: Date.now() };
+        updateConversation(activeConversation.id, conversation => ({
+            ...conversation,
+            messages: [...conversation.messages, newReply],
+            activeBranches: selectBranches(conversation, [newReply]),
+        }));
+
+        const files = await getAttachmentFiles(promptMessage.files);
+        await streamReply(activeConversation.id, newReply.id, model, promptMessage.text, files, messages.slice(0, index - 1));
+    };
+
+    /**
+     * Sends an edited copy of a past user message as a new branch, keeping the original.
+     */
+    const handleEditMessage = async (userMessage: Message, text: string) => {
+        if (!activeConversation || !text.trim()) return;
+        const index = messages.findIndex(msg => msg.id === userMessage.id);
+        if (index === -1) return;
+
+        const model = selectedModel;
+        const editedMessage: Message = {
+            id: Date.now().toString(),
+            text,
+            sender: 'user',
+            files: userMessage.files,
+            parentId: index > 0 ? messages[index - 1].id : null,
+            createdAt: Date.now(),
+        };
+        const newReply: Message = { id: (Date.now() + 1).toString(), text: '', sender: 'model', model, parentId: editedMessage.id, createdAt: Date.now() };
+        updateConversation(activeConversation.id, conversation => ({
+            ...conversation,
+            messages: [...conversation.messages, editedMessage, newReply],
+            activeBranches: selectBranches(conversation, [editedMessage, newReply]),
+        }));
+
+        const files = await getAttachmentFiles(userMessage.files);
+        await streamReply(activeConversation.id, newReply.id, model, text, files, messages.slice(0, index));
+    };
+
+    /**
+     * Adds the prompt and the reply picked in comparison mode to the active branch.
+     */
+    const handleSaveComparison = (prompt: string, reply: Omit<Message, 'id' | 'parentId'>) => {
+        const conversationId = activeConversation?.id ?? createConversation(reply.model ?? selectedModel, activePersonaId).id;
+        const isFirstMessage = messages.length === 0;
+        const userMessageId = Date.now().toString();
+        const userMessage: Message = {
+            id: userMessageId,
+            text: prompt,
+            sender: 'user',
+            parentId: messages.length > 0 ? messages[messages.length - 1].id : null,
+            createdAt: Date.now(),
+        };
+        const savedReply: Message = { ...reply, id: (Date.now() + 1).toString(), parentId: userMessageId };
+        updateConversation(conversationId, conversation => ({
+            ...conversation,
+            title: isFirstMessage && conversation.title === DEFAULT_CONVERSATION_TITLE ? deriveTitle(prompt) : conversation.title,
+            messages: [...conversation.messages, userMessage, savedReply],
+            activeBranches: selectBranches(conversation, [userMessage, savedReply]),
+        }));
+        setIsComparisonOpen(false);
+    };
+
+    /**
+     * Sends a rating of a reply to the backend with the configuration in effect,
+     * and remembers it on the message so the bubble shows it.
+     */
+    const handleFeedback = async (message: Message, feedback: MessageFeedback) => {
+        if (!activeConversation || !message.model) return;
+        // Replies saved before the configuration was recorded fall back to the current one.
+        const config = message.generationConfig ?? getModelConfig(message.model);
+        const personaId = message.generationConfig ? message.personaId : activePersonaId;
+        try {
+            await chatService.submitFeedback({
+                ...feedback,
+                conversationId: activeConversation.id,
+                messageId: message.id,
+                model: message.model,
+                config,
+                ...(personaId && { personaId }),
+                systemPromptVersion: getSystemPromptVersion(config.systemPrompt),
+                responseText: message.text,
+            });
+            setConversationMessages(activeConversation.id, prev =>
+                prev.map(msg => (msg.id === message.id ? { ...msg, feedback } : msg))
             );
+        } catch (err) {
+            setError(err instanceof AIError ? err.message : 'Failed to send feedback.');
+        }
+    };
+
+    const handleTogglePin = (message: Message) => {
+        if (!activeConversation) return;
+        setConversationMessages(activeConversation.id, prev =>
+            prev.map(msg => (msg.id === message.id ? { ...msg, pinned: !msg.pinned } : msg))
+        );
+    };
+
+    const handleSummarize = async () => {
+        if (!activeConversation || isLoading || isSummarizing) return;
+        setIsSummarizing(true);
+        setError(null);
+        try {
+            await summarizeContext(activeConversation.id, selectedModel, activeContext, 0);
+        } catch (err) {
+            setError(err instanceof AIError ? err.message : 'Failed to summarize the conversation.');
         } finally {
-            setIsLoading(false);
+            setIsSummarizing(false);
         }
     };
 
+    const handleClearSummary = () => {
+        if (!activeConversation) return;
+        updateConversation(activeConversation.id, conversation => ({ ...conversation, contextSummary: undefined }));
+    };
+
+    const handleSelectBranch = (message: Message, direction: -1 | 1) => {
+        const sibling = siblingMap.get(message.id);
+        const target = sibling?.siblings[sibling.index + direction];
+        if (!activeConversation || !target) return;
+        updateConversation(activeConversation.id, conversation => ({
+            ...conversation,
+            activeBranches: selectBranches(conversation, [target]),
+        }));
+    };
+
+    const handleStopGenerating = () => {
+        abortControllerRef.current?.abort();
+    };
+
+    const handleSelectConversation = (conversationId: string) => {
+        setSearchQuery('');
+        setError(null);
+        selectConversation(conversationId);
+    };
+
+    const handleCreateConversation = () => {
+        setSearchQuery('');
+        setError(null);
+        createConversation(selectedModel);
+    };
+
+    const handleModelChange = (model: AiModel) => {
+        setDraftModel(model);
+        if (activeConversation) {
+            updateConversation(activeConversation.id, conversation => ({ ...conversation, model }));
+        }
+    };
+
+    /**
+     * Applies a persona to the conversation (or the next one, if none is open) and
+     * switches to its default model. `null` goes back to the global configuration.
+     */
+    const handleApplyPersona = (persona: Persona | null) => {
+        setDraftPersonaId(persona?.id);
+        if (persona) setDraftModel(persona.defaultModel);
+        if (activeConversation) {
+            updateConversation(activeConversation.id, conversation => ({
+                ...conversation,
+                personaId: persona?.id,
+                model: persona?.defaultModel ?? conversation.model,
+            }));
+        }
+        setIsPersonaManagerOpen(false);
+    };
+
+    const handleImportFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+        const file = e.target.files?.[0];
+        e.target.value = ''; // Allow importing the same file again
+        if (!file) return;
+        try {
+            await importConversation(parseConversationExport(await file.text()));
+            setError(null);
+            setSearchQuery('');
+        } catch (err) {
+            setError(`Import failed: ${err instanceof Error ? err.message : 'The file could not be read.'}`);
+        }
+    };
+
+    const conversationTitle = activeConversation?.title ?? DEFAULT_CONVERSATION_TITLE;
+    const exportOptions: { format: string; label: string; run: () => void }[] = [
+        { format: 'txt', label: 'Export as TXT', run: () => exportChatToTxt(messages) },
+        { format: 'csv', label: 'Export as CSV', run: () => exportChatToCsv(messages) },
+        { format: 'md', label: 'Export as Markdown', run: () => exportChatToMarkdown(messages, conversationTitle) },
+        { format: 'pdf', label: 'Export as PDF', run: () => exportChatToPdf(messages, conversationTitle) },
+        ...(activeConversation ? [{ format: 'json', label: 'Export as JSON (all branches)', run: () => exportConversationToJson(activeConversation) }] : []),
+    ];
+
+    const commands = bindCommands(CHAT_COMMANDS, {
+        setModel: handleModelChange,
+        personas,
+        applyPersona: handleApplyPersona,
+        startNewConversation: handleCreateConversation,
+        exportOptions: messages.length > 0 ? exportOptions : [],
+        canSummarize,
+        summarize: handleSummarize,
+        videoHistory,
+    });
+
     return (
-        <div className="flex flex-col h-full bg-transparent">
-             <div className="flex-shrink-0 p-4 border-b border-border flex justify-between items-center gap-4">
-                <h2 className="text-lg font-semibold whitespace-nowrap">Conversation</h2>
+        <div className="flex h-full bg-transparent">
+            <ConversationList
+                conversations={conversations}
+                activeConversationId={activeConversation?.id ?? null}
+                isSyncing={isSyncing}
+                onSelect={handleSelectConversation}
+                onCreate={handleCreateConversation}
+                onRename={renameConversation}
+                onSetTags={setConversationTags}
+                onDelete={deleteConversation}
+            />
+            <div ref={chatAreaRef} className="flex-1 flex flex-col min-w-0">
+                <div className="flex-shrink-0 p-4 border-b border-border flex justify-between items-center gap-4">
+                    <h2 className="text-lg font-semibold truncate">{activeConversation?.title ?? 'Conversation'}</h2>
 
-                 <div className="relative flex-1 max-w-sm">
-                    <SearchIcon className="absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 text-text-secondary pointer-events-none" />
-                    <input
-                        type="text"
-                        placeholder="Search messages..."
-                        value={searchQuery}
-                        onChange={(e) => setSearchQuery(e.target.value)}
-                        className="w-full bg-background border border-border rounded-md pl-9 pr-8 py-1.5 text-sm focus:outline-none focus:ring-2 focus:ring-primary"
-                        aria-label="Search messages"
-                    />
-                    {searchQuery && (
+                    <select
+                        value={selectedModel}
+                        onChange={(e) => handleModelChange(e.target.value as AiModel)}
+                        disabled={isLoading}
+                        className="bg-background border border-border rounded-md px-2 py-1.5 text-sm focus:outline-none focus:ring-2 focus:ring-primary disabled:opacity-50"
+                        aria-label="AI model for this conversation"
+                    >
+                        {AI_MODELS.map(model => (
+                            <option key={model} value={model}>{AI_MODEL_LABELS[model]}</option>
+                        ))}
+                    </select>
+
+                    <div className="flex items-center">
                         <button
-                            onClick={() => setSearchQuery('')}
-                            className="absolute right-2 top-1/2 -translate-y-1/2 text-text-secondary hover:text-white"
-                            aria-label="Clear search"
+                            onClick={() => setIsPersonaManagerOpen(true)}
+                            disabled={isLoading}
+                            className={`flex items-center gap-2 px-3 py-2 text-sm bg-border hover:bg-gray-600 disabled:opacity-50 disabled:cursor-not-allowed transition-colors max-w-[12rem] ${activePersona ? 'rounded-l-md' : 'rounded-md'}`}
+                            title={activePersona ? `Persona: ${activePersona.name}` : 'Choose a persona for this conversation'}
                         >
-                            <XIcon className="w-4 h-4" />
+                            <UserIcon className="w-4 h-4 flex-shrink-0" />
+                            <span className="truncate">{activePersona?.name ?? 'Persona'}</span>
                         </button>
-                    )}
-                </div>
+                        {activePersona && (
+                            <button
+                                onClick={() => handleApplyPersona(null)}
+                                disabled={isLoading}
+                                className="p-2 bg-border rounded-r-md border-l border-background hover:bg-gray-600 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+                                aria-label="Stop using this persona"
+                            >
+                                <XIcon className="w-4 h-4" />
+                            </button>
+                        )}
+                    </div>
 
-                <div className="relative" ref={exportMenuRef}>
                     <button
-                        onClick={() => setIsExportMenuOpen(prev => !prev)}
-                        disabled={messages.length === 0}
+                        onClick={() => setIsComparisonOpen(true)}
+                        disabled={isLoading}
                         className="flex items-center gap-2 px-3 py-2 text-sm bg-border rounded-md hover:bg-gray-600 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+                        title="Send one prompt to every model and compare the replies"
                     >
-                        <FileDownIcon className="w-4 h-4" />
-                        Export Chat
-                        <ChevronDownIcon className={`w-4 h-4 transition-transform ${isExportMenuOpen ? 'rotate-180' : ''}`} />
+                        <ColumnsIcon className="w-4 h-4" />
+                        Compare
                     </button>
-                    {isExportMenuOpen && (
-                        <div className="absolute right-0 mt-2 w-40 bg-card rounded-md shadow-lg border border-border py-1 z-20">
-                            <button
-                                onClick={() => {
-                                    exportChatToTxt(messages);
-                                    setIsExportMenuOpen(false);
-                                }}
-                                className="block w-full text-left px-4 py-2 text-sm text-text-secondary hover:bg-background hover:text-white"
-                            >
-                                Export as TXT
-                            </button>
+
+                    <ContextMeter
+                        usedTokens={estimateContextTokens(activeContext.history, activeContext.summary?.text, selectedModel)}
+                        budget={contextBudget}
+                        summary={activeContext.summary}
+                        pinnedCount={messages.filter(msg => msg.pinned).length}
+                        canSummarize={canSummarize && !isLoading}
+                        isSummarizing={isSummarizing}
+                        onSummarize={handleSummarize}
+                        onClearSummary={handleClearSummary}
+                    />
+
+                    <div className="relative flex-1 max-w-sm">
+                        <SearchIcon className="absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 text-text-secondary pointer-events-none" />
+                        <input
+                            type="text"
+                            placeholder="Search messages..."
+                            value={searchQuery}
+                            onChange={(e) => setSearchQuery(e.target.value)}
+                            className="w-full bg-background border border-border rounded-md pl-9 pr-8 py-1.5 text-sm focus:outline-none focus:ring-2 focus:ring-primary"
+                            aria-label="Search messages"
+                        />
+                        {searchQuery && (
                             <button
-                                onClick={() => {
-                                    exportChatToCsv(messages);
-                                    setIsExportMenuOpen(false);
-                                }}
-                                className="block w-full text-left px-4 py-2 text-sm text-text-secondary hover:bg-background hover:text-white"
+                                onClick={() => setSearchQuery('')}
+                                className="absolute right-2 top-1/2 -translate-y-1/2 text-text-secondary hover:text-white"
+                                aria-label="Clear search"
                             >
-                                Export as CSV
+                                <XIcon className="w-4 h-4" />
                             </button>
+                        )}
+                    </div>
+
+                    <div className="relative" ref={exportMenuRef}>
+                        <button
+                            onClick={() => setIsExportMenuOpen(prev => !prev)}
+                            disabled={messages.length === 0}
+                            className="flex items-center gap-2 px-3 py-2 text-sm bg-border rounded-md hover:bg-gray-600 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+                        >
+                            <FileDownIcon className="w-4 h-4" />
+                            Export Chat
+                            <ChevronDownIcon className={`w-4 h-4 transition-transform ${isExportMenuOpen ? 'rotate-180' : ''}`} />
+                        </button>
+                        {isExportMenuOpen && (
+                            <div className="absolute right-0 mt-2 w-56 bg-card rounded-md shadow-lg border border-border py-1 z-20">
+                                {exportOptions.map(option => (
+                                    <button
+                                        key={option.label}
+                                        onClick={() => {
+                                            option.run();
+                                            setIsExportMenuOpen(false);
+                                        }}
+                                        className="block w-full text-left px-4 py-2 text-sm text-text-secondary hover:bg-background hover:text-white"
+                                    >
+                                        {option.label}
+                                    </button>
+                                ))}
+                            </div>
+                        )}
+                    </div>
+
+                    <input
+                        ref={importInputRef}
+                        type="file"
+                        accept="application/json,.json"
+                        onChange={handleImportFile}
+                        className="hidden"
+                    />
+                    <button
+                        onClick={() => importInputRef.current?.click()}
+                        disabled={isLoading}
+                        className="flex items-center gap-2 px-3 py-2 text-sm bg-border rounded-md hover:bg-gray-600 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+                        title="Import a conversation exported as JSON"
+                    >
+                        <UploadIcon className="w-4 h-4" />
+                        Import
+                    </button>
+                </div>
+
+                <div ref={messageList.scrollRef} className="flex-1 overflow-y-auto p-6">
+                    {messages.length === 0 && !isLoading && (
+                        <div className="text-center text-gray-500 pt-10">
+                            <p>Start a conversation by sending a message.</p>
+                        </div>
+                    )}
+                    <div ref={messageList.listRef} className="relative" style={{ height: messageList.totalSize }}>
+                        {messageList.virtualItems.map(({ index, key, start }) => {
+                            const msg = filteredMessages[index];
+                            const sibling = siblingMap.get(msg.id);
+                            return (
+                                <div
+                                    key={key}
+                                    data-index={index}
+                                    ref={messageList.measureElement}
+                                    className={`absolute inset-x-0 top-0 ${index < filteredMessages.length - 1 ? 'pb-6' : ''}`}
+                                    style={{ transform: `translateY(${start}px)` }}
+                                >
+                                    <div className={`rounded-2xl transition-shadow ${highlightedMessageId === msg.id ? 'ring-2 ring-primary/70 ring-offset-4 ring-offset-background' : ''}`}>
+                                        <ChatBubble
+                                            message={msg}
+                                            isLoading={isLoading && messages.length > 0 && msg.id === messages[messages.length - 1].id}
+                                            highlight={searchQuery}
+                                            branch={sibling && { index: sibling.index, count: sibling.siblings.length }}
+                                            onSelectBranch={(direction) => handleSelectBranch(msg, direction)}
+                                            onRegenerate={msg.sender === 'model' ? () => handleRegenerate(msg) : undefined}
+                                            onEdit={msg.sender === 'user' ? (text) => handleEditMessage(msg, text) : undefined}
+                                            actionsDisabled={isLoading}
+                                            isSpeaking={readAloud.speakingMessageId === msg.id}
+                                            onToggleSpeech={readAloud.isSupported
+                                                ? () => (readAloud.speakingMessageId === msg.id ? readAloud.stop() : readAloud.speak(msg.id, msg.text))
+                                                : undefined}
+                                            onFeedback={msg.sender === 'model' ? (feedback) => handleFeedback(msg, feedback) : undefined}
+                                            onRetrySend={msg.pending ? flushOutbox : undefined}
+                                            onDiscard={msg.pending ? () => handleDiscardQueued(msg) : undefined}
+                                            onTogglePin={() => handleTogglePin(msg)}
+                                        />
+                                    </div>
+                                </div>
+                            );
+                        })}
+                    </div>
+                    {messages.length > 0 && filteredMessages.length === 0 && (
+                         <div className="text-center text-gray-500 pt-10">
+                            <p>No messages found for "{searchQuery}".</p>
                         </div>
                     )}
                 </div>
-            </div>
-
-            <div className="flex-1 overflow-y-auto p-6 space-y-6">
-                {messages.length === 0 && !isLoading && (
-                    <div className="text-center text-gray-500 pt-10">
-                        <p>Start a conversation by sending a message.</p>
+                {error && (
+                    <div className="p-4 text-center text-red-400 bg-red-900/30 border-t border-gray-700">
+                        {error}
                     </div>
                 )}
-                {filteredMessages.map((msg) => (
-                    <ChatBubble
-                        key={msg.id}
-                        message={msg}
-                        isLoading={isLoading && messages.length > 0 && msg.id === messages[messages.length - 1].id}
-                        highlight={searchQuery}
-                    />
-                ))}
-                {messages.length > 0 && filteredMessages.length === 0 && (
-                     <div className="text-center text-gray-500 pt-10">
-                        <p>No messages found for "{searchQuery}".</p>
+                {!isOnline && (
+                    <div className="px-4 py-2 text-sm text-center text-warning bg-warning/10 border-t border-gray-700">
+                        You're offline. New messages will be queued and sent when the connection is back.
                     </div>
                 )}
-                <div ref={messagesEndRef} />
+                <ChatInput
+                    onSendMessage={handleSendMessage}
+                    onStop={handleStopGenerating}
+                    isLoading={isLoading}
+                    dropZoneRef={chatAreaRef}
+                    commands={commands}
+                    placeholder="Type your message, / for commands, or drop or paste files..."
+                />
             </div>
-            {error && (
-                <div className="p-4 text-center text-red-400 bg-red-900/30 border-t border-gray-700">
-                    {error}
-                </div>
+            {isComparisonOpen && (
+                <ModelComparison
+                    history={messages}
+                    getModelConfig={getModelConfig}
+                    onSave={handleSaveComparison}
+                    onClose={() => setIsComparisonOpen(false)}
+                />
+            )}
+            {isPersonaManagerOpen && (
+                <PersonaManager
+                    personas={personas}
+                    limits={personaLimits}
+                    isLoading={isLoadingPersonas}
+                    error={personasError}
+                    activePersonaId={activePersonaId}
+                    onApply={handleApplyPersona}
+                    onSavePersona={savePersona}
+                    onDeletePersona={deletePersona}
+                    onClose={() => setIsPersonaManagerOpen(false)}
+                />
             )}
-            <ChatInput onSendMessage={handleSendMessage} isLoading={isLoading} />
         </div>
     );
 };
\ No newline at end of file
@@ -0,0 +1,112 @@
+import React, { useState, useEffect, useRef } from 'react';
+import type { ContextSummary } from '../types';
+import { formatTokenCount } from '../utils/tokenUtils';
+import { LoaderIcon } from './icons/LoaderIcon';
+import { PinIcon } from './icons/PinIcon';
+
+interface ContextMeterProps {
+    usedTokens: number; // Estimated tokens the next request would spend on context
+    budget: number;
+    summary?: ContextSummary; // The summary that applies to the active branch
+    pinnedCount: number;
+    canSummarize: boolean;
+    isSummarizing: boolean;
+    onSummarize: () => void;
+    onClearSummary: () => void;
+}
+
+// Above this share of the budget the meter turns amber; past the budget older turns get summarized.
+const WARNING_RATIO = 0.8;
+
+/**
+ * Shows how much of the context budget the conversation uses, with a panel that
+ * shows the summary of older turns and lets the user summarize or reset it.
+ */
+export const ContextMeter: React.FC<ContextMeterProps> = ({
+    usedTokens,
+    budget,
+    summary,
+    pinnedCount,
+    canSummarize,
+    isSummarizing,
+    onSummarize,
+    onClearSummary,
+}) => {
+    const [isOpen, setIsOpen] = useState(false);
+    const containerRef = useRef<HTMLDivElement>(null);
+    const ratio = budget > 0 ? usedTokens / budget : 1;
+    const barColor = ratio > 1 ? 'bg-error' : ratio > WARNING_RATIO ? 'bg-warning' : 'bg-primary';
+
+    useEffect(() => {
+        if (!isOpen) return;
+        const handleClickOutside = (event: MouseEvent) => {
+            if (containerRef.current && !containerRef.current.contains(event.target as Node)) {
+                setIsOpen(false);
+            }
+        };
+        document.addEventListener('mousedown', handleClickOutside);
+        return () => document.removeEventListener('mousedown', handleClickOutside);
+    }, [isOpen]);
+
+    return (
+        <div className="relative" ref={containerRef}>
+            <button
+                onClick={() => setIsOpen(prev => !prev)}
+                className="flex items-center gap-2 px-3 py-2 text-sm bg-border rounded-md hover:bg-gray-600 transition-colors"
+                title="Context used by this conversation"
+                aria-expanded={isOpen}
+            >
+                <span className="w-12 h-1.5 bg-background rounded-full overflow-hidden" aria-hidden="true">
+                    <span className={`block h-full ${barColor}`} style={{ width: `${Math.min(100, ratio * 100)}%` }} />
+                </span>
+                <span className="font-mono text-xs">{formatTokenCount(usedTokens)} / {formatTokenCount(budget)}</span>
+            </button>
+            {isOpen && (
+                <div className="absolute right-0 mt-2 w-80 bg-card rounded-md shadow-lg border border-border p-4 z-20 space-y-3 text-sm">
+                    <div>
+                        <p className="font-semibold text-white">Context used</p>
+                        <p className="text-text-secondary">
+                            About {usedTokens.toLocaleString()} of {budget.toLocaleString()} tokens. Older messages are summarized once the budget is exceeded.
+                        </p>
+                    </div>
+                    {pinnedCount > 0 && (
+                        <p className="flex items-center gap-2 text-text-secondary">
+                            <PinIcon className="w-4 h-4 text-primary" />
+                            {pinnedCount} pinned message{pinnedCount === 1 ? '' : 's'} always sent
+                        </p>
+                    )}
+                    {summary ? (
+                        <div>
+                            <p className="text-xs font-semibold uppercase tracking-wide text-text-secondary">
+                                Summary of {summary.messageIds.length} earlier message{summary.messageIds.length === 1 ? '' : 's'}
+                            </p>
+                            <p className="mt-1 max-h-48 overflow-y-auto whitespace-pre-wrap text-text bg-background/50 rounded-md p-2">{summary.text}</p>
+                        </div>
+                    ) : (
+                        <p className="text-text-secondary">No messages have been summarized yet.</p>
+                    )}
+                    <div className="flex justify-end gap-2">
+                        {summary && (
+                            <button
+                                onClick={onClearSummary}
+                                disabled={isSummarizing}
+                                className="px-3 py-1.5 text-xs rounded-md bg-border text-text-secondary hover:bg-gray-600 disabled:opacity-50"
+                            >
+                                Discard Summary
+                            </button>
+                        )}
+                        <button
+                            onClick={onSummarize}
+                            disabled={!canSummarize || isSummarizing}
+                            className="flex items-center gap-1 px-3 py-1.5 text-xs rounded-md bg-primary text-white font-semibold hover:bg-primary-hover disabled:opacity-50 disabled:cursor-not-allowed"
+                            title={canSummarize ? 'Summarize all but the latest exchange' : 'There are no older messages to summarize'}
+                        >
+                            {isSummarizing && <LoaderIcon className="w-3 h-3 animate-spin" />}
+                            Summarize Now
+                        </button>
+                    </div>
+                </div>
+            )}
+        </div>
+    );
+};
@@ -0,0 +1,217 @@
+import React, { useState, useMemo } from 'react';
+import type { Conversation } from '../types';
+import { getAllTags, parseTagInput } from '../utils/conversationTags';
+import { Modal } from './common/Modal';
+import { PlusIcon } from './icons/PlusIcon';
+import { EditIcon } from './icons/EditIcon';
+import { Trash2Icon } from './icons/Trash2Icon';
+import { MessageSquareIcon } from './icons/MessageSquareIcon';
+import { LoaderIcon } from './icons/LoaderIcon';
+import { AlertTriangleIcon } from './icons/AlertTriangleIcon';
+
+interface ConversationListProps {
+    conversations: Conversation[];
+    activeConversationId: string | null;
+    isSyncing: boolean;
+    onSelect: (conversationId: string) => void;
+    onCreate: () => void;
+    onRename: (conversationId: string, title: string) => void;
+    onSetTags: (conversationId: string, tags: string[]) => void;
+    onDelete: (conversationId: string) => void;
+}
+
+export const ConversationList: React.FC<ConversationListProps> = ({
+    conversations,
+    activeConversationId,
+    isSyncing,
+    onSelect,
+    onCreate,
+    onRename,
+    onSetTags,
+    onDelete,
+}) => {
+    const [editingId, setEditingId] = useState<string | null>(null);
+    const [editingTitle, setEditingTitle] = useState('');
+    const [editingTags, setEditingTags] = useState('');
+    const [conversationToDelete, setConversationToDelete] = useState<Conversation | null>(null);
+    const [selectedTag, setSelectedTag] = useState<string | null>(null);
+
+    const allTags = useMemo(() => getAllTags(conversations), [conversations]);
+    // The filter lapses once no conversation has the tag anymore.
+    const tagFilter = selectedTag && allTags.includes(selectedTag) ? selectedTag : null;
+    const visibleConversations = tagFilter
+        ? conversations.filter(conversation => conversation.tags?.includes(tagFilter))
+        : conversations;
+
+    const startEditing = (conversation: Conversation) => {
+        setEditingId(conversation.id);
+        setEditingTitle(conversation.title);
+        setEditingTags((conversation.tags || []).join(', '));
+    };
+
+    const commitEditing = () => {
+        const conversation = conversations.find(c => c.id === editingId);
+        if (conversation) {
+            // Only a changed title counts as a rename, so generated titles can still replace an untouched one.
+            if (editingTitle.trim() !== conversation.title) {
+                onRename(conversation.id, editingTitle);
+            }
+            const tags = parseTagInput(editingTags);
+            if (tags.join(',') !== (conversation.tags || []).join(',')) {
+                onSetTags(conversation.id, tags);
+            }
+        }
+        setEditingId(null);
+    };
+
+    // The title and tag fields are edited together; leaving both saves them.
+    const handleEditBlur = (e: React.FocusEvent<HTMLDivElement>) => {
+        if (!e.currentTarget.contains(e.relatedTarget as Node | null)) {
+            commitEditing();
+        }
+    };
+
+    const handleEditKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+        if (e.key === 'Enter') {
+            commitEditing();
+        } else if (e.key === 'Escape') {
+            setEditingId(null);
+        }
+    };
+
+    const confirmDelete = () => {
+        if (!conversationToDelete) return;
+        onDelete(conversationToDelete.id);
+        setConversationToDelete(null);
+    };
+
+    return (
+        <aside className="w-72 border-r border-border bg-card flex flex-col flex-shrink-0">
+            <div className="p-4 border-b border-border flex justify-between items-center">
+                <h2 className="text-lg font-semibold flex items-center gap-2">
+                    <MessageSquareIcon className="w-5 h-5" /> Conversations
+                    {isSyncing && <LoaderIcon className="w-4 h-4 animate-spin text-text-secondary" aria-label="Syncing conversations" />}
+                </h2>
+                <button
+                    onClick={onCreate}
+                    className="p-1.5 rounded-md text-text-secondary hover:text-white hover:bg-border transition-colors"
+                    aria-label="New conversation"
+                >
+                    <PlusIcon className="w-5 h-5" />
+                </button>
+            </div>
+            {allTags.length > 0 && (
+                <div className="px-4 py-2 border-b border-border flex flex-wrap gap-1 max-h-24 overflow-y-auto" aria-label="Filter by tag">
+                    {allTags.map(tag => (
+                        <button
+                            key={tag}
+                            onClick={() => setSelectedTag(tag === tagFilter ? null : tag)}
+                            className={`px-2 py-0.5 text-xs rounded-full transition-colors ${tag === tagFilter ? 'bg-primary text-white' : 'bg-background text-text-secondary hover:text-white'}`}
+                            aria-pressed={tag === tagFilter}
+                        >
+                            #{tag}
+                        </button>
+                    ))}
+                </div>
+            )}
+            <div className="overflow-y-auto flex-1">
+                {conversations.length === 0 ? (
+                    <p className="p-4 text-center text-text-secondary text-sm">No saved conversations yet.</p>
+                ) : (
+                    <ul className="divide-y divide-border">
+                        {visibleConversations.map(conversation => {
+                            const isActive = conversation.id === activeConversationId;
+                            return (
+                                <li key={conversation.id} className={`group flex items-center ${isActive ? 'bg-primary/10' : 'hover:bg-background/50'}`}>
+                                    {editingId === conversation.id ? (
+                                        <div className="m-3 flex-1 space-y-2" onBlur={handleEditBlur}>
+                                            <input
+                                                type="text"
+                                                value={editingTitle}
+                                                onChange={(e) => setEditingTitle(e.target.value)}
+                                                onKeyDown={handleEditKeyDown}
+                                                className="w-full bg-background border border-border rounded-md px-2 py-1 text-sm focus:outline-none focus:ring-2 focus:ring-primary"
+                                                aria-label="Conversation title"
+                                                autoFocus
+                                            />
+                                            <input
+                                                type="text"
+                                                value={editingTags}
+                                                onChange={(e) => setEditingTags(e.target.value)}
+                                                onKeyDown={handleEditKeyDown}
+                                                placeholder="Tags, separated by commas"
+                                                className="w-full bg-background border border-border rounded-md px-2 py-1 text-xs focus:outline-none focus:ring-2 focus:ring-primary"
+                                                aria-label="Conversation tags"
+                                            />
+                                        </div>
+                                    ) : (
+                                        <>
+                                            <button onClick={() => onSelect(conversation.id)} className="flex-1 min-w-0 text-left p-4">
+                                                <p className={`font-semibold truncate ${isActive ? 'text-primary' : ''}`}>{conversation.title}</p>
+                                                <p className="text-xs text-text-secondary">{new Date(conversation.updatedAt).toLocaleString()}</p>
+                                                {conversation.tags && conversation.tags.length > 0 && (
+                                                    <p className="mt-1 flex flex-wrap gap-1">
+                                                        {conversation.tags.map(tag => (
+                                                            <span key={tag} className="px-1.5 py-0.5 text-[10px] rounded bg-primary/10 text-primary">#{tag}</span>
+                                                        ))}
+                                                    </p>
+                                                )}
+                                            </button>
+                                            <div className="flex items-center gap-1 pr-3 opacity-0 group-hover:opacity-100 focus-within:opacity-100 transition-opacity">
+                                                <button
+                                                    onClick={() => startEditing(conversation)}
+                                                    className="p-1 text-text-secondary hover:text-white"
+                                                    aria-label={`Edit the title and tags of ${conversation.title}`}
+                                                >
+                                                    <EditIcon className="w-4 h-4" />
+                                                </button>
+                                                <button
+                                                    onClick={() => setConversationToDelete(conversation)}
+                                                    className="p-1 text-text-secondary hover:text-error"
+                                                    aria-label={`Delete ${conversation.title}`}
+                                                >
+                                                    <Trash2Icon className="w-4 h-4" />
+                                                </button>
+                                            </div>
+                                        </>
+                                    )}
+                                </li>
+                            );
+                        })}
+                    </ul>
+                )}
+            </div>
+
+            <Modal
+                isOpen={!!conversationToDelete}
+                onClose={() => setConversationToDelete(null)}
+                title="Delete Conversation"
+            >
+                <div className="text-center">
+                    <AlertTriangleIcon className="w-12 h-12 text-error mx-auto mb-4" />
+                    <p className="text-lg text-text">Are you sure you want to delete this conversation?</p>
+                    <div className="my-4 p-4 bg-background/50 rounded-lg border border-border">
+                        <p className="font-semibold text-white truncate">{conversationToDelete?.title}</p>
+                    </div>
+                    <p className="mt-2 text-sm text-text-secondary">
+                        It will be removed from all of your devices. This action cannot be undone.
+                    </p>
+                    <div className="flex justify-center gap-4 mt-6">
+                        <button
+                            onClick={() => setConversationToDelete(null)}
+                            className="px-6 py-2 text-sm font-medium text-text-secondary bg-border rounded-md hover:bg-gray-600"
+                        >
+                            Cancel
+                        </button>
+                        <button
+                            onClick={confirmDelete}
+                            className="px-6 py-2 text-sm font-medium text-white bg-error rounded-md hover:bg-red-600"
+                        >
+                            Yes, Delete
+                        </button>
+                    </div>
+                </div>
+            </Modal>
+        </aside>
+    );
+};
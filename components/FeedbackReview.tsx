@@ -0,0 +1,161 @@
+import React, { useState, useEffect, useMemo } from 'react';
+import type { AiModel, ResponseFeedback } from '../types';
+import { AIError } from '../types';
+import { chatService } from '../services/chatService';
+import { AI_MODELS, AI_MODEL_LABELS } from '../utils/aiModels';
+import { exportFeedbackToCsv } from '../utils/exportUtils';
+import { LoaderIcon } from './icons/LoaderIcon';
+import { DownloadIcon } from './icons/DownloadIcon';
+import { ThumbsUpIcon } from './icons/ThumbsUpIcon';
+import { ThumbsDownIcon } from './icons/ThumbsDownIcon';
+
+type RatingFilter = 'all' | ResponseFeedback['rating'];
+
+const selectClassName = 'bg-background border border-border rounded-md px-2 py-1.5 text-sm text-white focus:outline-none focus:ring-2 focus:ring-primary';
+
+/**
+ * Lists the ratings users gave to model replies, filtered by model, rating and
+ * system prompt version, with a CSV export of the current selection.
+ */
+export const FeedbackReview: React.FC = () => {
+    const [feedback, setFeedback] = useState<ResponseFeedback[]>([]);
+    const [isLoading, setIsLoading] = useState(true);
+    const [error, setError] = useState<string | null>(null);
+    const [modelFilter, setModelFilter] = useState<'all' | AiModel>('all');
+    const [ratingFilter, setRatingFilter] = useState<RatingFilter>('all');
+    const [versionFilter, setVersionFilter] = useState('all');
+
+    useEffect(() => {
+        let cancelled = false;
+        chatService.getAllFeedback()
+            .then(fetched => {
+                if (!cancelled) setFeedback([...fetched].sort((a, b) => b.createdAt - a.createdAt));
+            })
+            .catch(err => {
+                console.error('Failed to load feedback:', err);
+                if (!cancelled) setError(err instanceof AIError ? err.message : 'Failed to load feedback.');
+            })
+            .finally(() => {
+                if (!cancelled) setIsLoading(false);
+            });
+        return () => { cancelled = true; };
+    }, []);
+
+    // One entry per prompt version seen for the selected model, labelled with the start of the prompt.
+    const promptVersions = useMemo(() => {
+        const versions = new Map<string, string>();
+        feedback
+            .filter(item => modelFilter === 'all' || item.model === modelFilter)
+            .forEach(item => {
+                if (!versions.has(item.systemPromptVersion)) versions.set(item.systemPromptVersion, item.config.systemPrompt);
+            });
+        return Array.from(versions, ([version, prompt]) => ({ version, prompt }));
+    }, [feedback, modelFilter]);
+
+    const filteredFeedback = useMemo(() => feedback.filter(item =>
+        (modelFilter === 'all' || item.model === modelFilter)
+        && (ratingFilter === 'all' || item.rating === ratingFilter)
+        && (versionFilter === 'all' || item.systemPromptVersion === versionFilter)
+    ), [feedback, modelFilter, ratingFilter, versionFilter]);
+
+    const positiveCount = filteredFeedback.filter(item => item.rating === 'up').length;
+
+    const handleModelChange = (model: 'all' | AiModel) => {
+        setModelFilter(model);
+        setVersionFilter('all'); // Versions are listed per model
+    };
+
+    if (isLoading) {
+        return <div className="flex justify-center p-6"><LoaderIcon className="w-6 h-6 animate-spin text-text-secondary" /></div>;
+    }
+
+    if (error) {
+        return <p className="p-3 text-center text-error bg-error/10 rounded-lg">{error}</p>;
+    }
+
+    return (
+        <div className="space-y-4">
+            <div className="flex flex-wrap items-center gap-3 text-sm text-text-secondary">
+                <label className="flex items-center gap-2">
+                    Model
+                    <select value={modelFilter} onChange={(e) => handleModelChange(e.target.value as 'all' | AiModel)} className={selectClassName}>
+                        <option value="all">All</option>
+                        {AI_MODELS.map(model => <option key={model} value={model}>{AI_MODEL_LABELS[model]}</option>)}
+                    </select>
+                </label>
+                <label className="flex items-center gap-2">
+                    Rating
+                    <select value={ratingFilter} onChange={(e) => setRatingFilter(e.target.value as RatingFilter)} className={selectClassName}>
+                        <option value="all">All</option>
+                        <option value="up">Positive</option>
+                        <option value="down">Negative</option>
+                    </select>
+                </label>
+                <label className="flex items-center gap-2 min-w-0">
+                    System prompt
+                    <select value={versionFilter} onChange={(e) => setVersionFilter(e.target.value)} className={`${selectClassName} max-w-xs`}>
+                        <option value="all">All versions</option>
+                        {promptVersions.map(({ version, prompt }) => (
+                            <option key={version} value={version}>{version} – {prompt.slice(0, 40)}</option>
+                        ))}
+                    </select>
+                </label>
+                <button
+                    onClick={() => exportFeedbackToCsv(filteredFeedback)}
+                    disabled={filteredFeedback.length === 0}
+                    className="ml-auto flex items-center gap-2 px-3 py-2 text-sm text-white bg-border rounded-md hover:bg-gray-600 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+                >
+                    <DownloadIcon className="w-4 h-4" /> Export CSV
+                </button>
+            </div>
+
+            <p className="text-sm text-text-secondary">
+                {filteredFeedback.length} rating{filteredFeedback.length === 1 ? '' : 's'}
+                {filteredFeedback.length > 0 && ` · ${Math.round((positiveCount / filteredFeedback.length) * 100)}% positive`}
+            </p>
+
+            {filteredFeedback.length === 0 ? (
+                <p className="p-4 text-center text-sm text-text-secondary">
+                    {feedback.length === 0 ? 'No feedback has been given yet.' : 'No feedback matches these filters.'}
+                </p>
+            ) : (
+                <div className="overflow-x-auto">
+                    <table className="min-w-full divide-y divide-border">
+                        <thead className="bg-background/50">
+                            <tr>
+                                <th scope="col" className="px-4 py-3 text-left text-xs font-medium text-text-secondary uppercase tracking-wider">Date</th>
+                                <th scope="col" className="px-4 py-3 text-left text-xs font-medium text-text-secondary uppercase tracking-wider">User</th>
+                                <th scope="col" className="px-4 py-3 text-left text-xs font-medium text-text-secondary uppercase tracking-wider">Model</th>
+                                <th scope="col" className="px-4 py-3 text-left text-xs font-medium text-text-secondary uppercase tracking-wider">Rating</th>
+                                <th scope="col" className="px-4 py-3 text-left text-xs font-medium text-text-secondary uppercase tracking-wider">Comment</th>
+                                <th scope="col" className="px-4 py-3 text-left text-xs font-medium text-text-secondary uppercase tracking-wider">Prompt</th>
+                            </tr>
+                        </thead>
+                        <tbody className="bg-card divide-y divide-border">
+                            {filteredFeedback.map(item => (
+                                <tr key={item.id} className="hover:bg-background/60 transition-colors duration-200 align-top">
+                                    <td className="px-4 py-3 whitespace-nowrap text-sm text-text-secondary">{new Date(item.createdAt).toLocaleString()}</td>
+                                    <td className="px-4 py-3 whitespace-nowrap text-sm text-text">{item.userName || '—'}</td>
+                                    <td className="px-4 py-3 whitespace-nowrap text-sm font-mono text-text-secondary">{AI_MODEL_LABELS[item.model]}</td>
+                                    <td className="px-4 py-3 whitespace-nowrap text-sm">
+                                        {item.rating === 'up'
+                                            ? <ThumbsUpIcon className="w-4 h-4 text-success" aria-label="Positive" />
+                                            : <ThumbsDownIcon className="w-4 h-4 text-error" aria-label="Negative" />}
+                                    </td>
+                                    <td className="px-4 py-3 text-sm text-text max-w-md">
+                                        <p className="whitespace-pre-wrap">{item.comment || <span className="text-text-secondary">—</span>}</p>
+                                        <p className="mt-1 text-xs text-text-secondary line-clamp-2" title={item.responseText}>{item.responseText}</p>
+                                    </td>
+                                    <td className="px-4 py-3 whitespace-nowrap text-xs font-mono text-text-secondary" title={item.config.systemPrompt}>
+                                        {item.systemPromptVersion}
+                                        <span className="block">temp {item.config.temperature}</span>
+                                    </td>
+                                </tr>
+                            ))}
+                        </tbody>
+                    </table>
+                </div>
+            )}
+        </div>
+    );
+};
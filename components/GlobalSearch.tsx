@@ -0,0 +1,155 @@
+import React, { useState, useMemo } from 'react';
+import type { Conversation, NavigationTarget } from '../types';
+import useLocalStorageState from '../hooks/useLocalStorageState';
+import { CONVERSATIONS_STORAGE_KEY } from '../hooks/useConversations';
+import { useVideoHistory } from '../hooks/useVideoHistory';
+import { searchEverything, getSearchTerms, type SearchFilters, type SearchSender, type SearchSource } from '../utils/globalSearch';
+import { formatTimestamp } from '../utils/timestamps';
+import { SearchIcon } from './icons/SearchIcon';
+import { MessageSquareIcon } from './icons/MessageSquareIcon';
+import { VideoIcon } from './icons/VideoIcon';
+
+// Rendering thousands of rows makes typing sluggish; narrowing the query is more useful anyway.
+const MAX_VISIBLE_RESULTS = 200;
+
+const escapeRegExp = (str: string) => str.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+const HighlightedText: React.FC<{ text: string; terms: string[] }> = ({ text, terms }) => {
+    if (terms.length === 0) return <>{text}</>;
+    const regex = new RegExp(`(${terms.map(escapeRegExp).join('|')})`, 'gi');
+    return (
+        <>
+            {text.split(regex).map((part, index) =>
+                terms.includes(part.toLowerCase())
+                    ? <mark key={index} className="bg-yellow-500/70 text-white rounded px-0.5">{part}</mark>
+                    : <React.Fragment key={index}>{part}</React.Fragment>
+            )}
+        </>
+    );
+};
+
+// Date inputs give "YYYY-MM-DD"; the range covers the whole of both days in local time.
+const toStartOfDay = (date: string) => (date ? new Date(`${date}T00:00:00`).getTime() : undefined);
+const toEndOfDay = (date: string) => (date ? new Date(`${date}T23:59:59.999`).getTime() : undefined);
+
+const selectClassName = 'bg-background border border-border rounded-md px-2 py-1.5 text-sm focus:outline-none focus:ring-2 focus:ring-primary disabled:opacity-50';
+
+interface GlobalSearchProps {
+    onOpenResult: (target: NavigationTarget) => void;
+}
+
+/**
+ * Searches all saved conversations and video transcripts stored on this device.
+ */
+export const GlobalSearch: React.FC<GlobalSearchProps> = ({ onOpenResult }) => {
+    const [conversations] = useLocalStorageState<Conversation[]>(CONVERSATIONS_STORAGE_KEY, []);
+    const [videoHistory] = useVideoHistory();
+    const [query, setQuery] = useState('');
+    const [source, setSource] = useState<SearchSource>('all');
+    const [sender, setSender] = useState<SearchSender>('any');
+    const [fromDate, setFromDate] = useState('');
+    const [toDate, setToDate] = useState('');
+
+    const terms = useMemo(() => getSearchTerms(query), [query]);
+    const results = useMemo(() => {
+        const filters: SearchFilters = {
+            source,
+            sender: source === 'video' ? 'any' : sender,
+            from: toStartOfDay(fromDate),
+            to: toEndOfDay(toDate),
+        };
+        return searchEverything(query, conversations, videoHistory, filters);
+    }, [query, conversations, videoHistory, source, sender, fromDate, toDate]);
+
+    return (
+        <div className="h-full flex flex-col">
+            <div className="flex-shrink-0 p-6 border-b border-border space-y-4">
+                <div className="relative">
+                    <SearchIcon className="absolute left-3 top-1/2 -translate-y-1/2 w-5 h-5 text-text-secondary pointer-events-none" />
+                    <input
+                        type="text"
+                        value={query}
+                        onChange={(e) => setQuery(e.target.value)}
+                        placeholder="Search all conversations and video transcripts..."
+                        className="w-full bg-background border border-border rounded-lg pl-11 pr-4 py-3 focus:outline-none focus:ring-2 focus:ring-primary"
+                        aria-label="Search everything"
+                        autoFocus
+                    />
+                </div>
+                <div className="flex flex-wrap items-center gap-3 text-sm text-text-secondary">
+                    <label className="flex items-center gap-2">
+                        Source
+                        <select value={source} onChange={(e) => setSource(e.target.value as SearchSource)} className={selectClassName}>
+                            <option value="all">All</option>
+                            <option value="chat">Conversations</option>
+                            <option value="video">Video transcripts</option>
+                        </select>
+                    </label>
+                    <label className="flex items-center gap-2">
+                        Sender
+                        <select
+                            value={sender}
+                            onChange={(e) => setSender(e.target.value as SearchSender)}
+                            disabled={source === 'video'}
+                            className={selectClassName}
+                        >
+                            <option value="any">Anyone</option>
+                            <option value="user">Me</option>
+                            <option value="model">AI</option>
+                        </select>
+                    </label>
+                    <label className="flex items-center gap-2">
+                        From
+                        <input type="date" value={fromDate} max={toDate || undefined} onChange={(e) => setFromDate(e.target.value)} className={selectClassName} />
+                    </label>
+                    <label className="flex items-center gap-2">
+                        To
+                        <input type="date" value={toDate} min={fromDate || undefined} onChange={(e) => setToDate(e.target.value)} className={selectClassName} />
+                    </label>
+                </div>
+            </div>
+
+            <div className="flex-1 overflow-y-auto p-6">
+                {terms.length === 0 ? (
+                    <p className="text-center text-text-secondary pt-10">Type to search your conversations and analyzed videos.</p>
+                ) : results.length === 0 ? (
+                    <p className="text-center text-text-secondary pt-10">No results for "{query}".</p>
+                ) : (
+                    <>
+                        <p className="mb-3 text-sm text-text-secondary">
+                            {results.length > MAX_VISIBLE_RESULTS
+                                ? `Showing the ${MAX_VISIBLE_RESULTS} most recent of ${results.length} results`
+                                : `${results.length} result${results.length === 1 ? '' : 's'}`}
+                        </p>
+                        <ul className="space-y-2">
+                            {results.slice(0, MAX_VISIBLE_RESULTS).map(result => (
+                                <li key={result.key}>
+                                    <button
+                                        onClick={() => onOpenResult(result.target)}
+                                        className="w-full text-left p-4 bg-card border border-border rounded-lg hover:border-primary/60 transition-colors"
+                                    >
+                                        <div className="flex items-center gap-2 text-xs text-text-secondary">
+                                            {result.source === 'chat'
+                                                ? <MessageSquareIcon className="w-4 h-4 flex-shrink-0" />
+                                                : <VideoIcon className="w-4 h-4 flex-shrink-0" />}
+                                            <span className="font-semibold text-text truncate">{result.title}</span>
+                                            <span className="flex-shrink-0">
+                                                {result.source === 'chat'
+                                                    ? (result.sender === 'user' ? 'You' : 'AI')
+                                                    : `at ${formatTimestamp(result.segmentStart ?? 0)}`}
+                                            </span>
+                                            <span className="ml-auto flex-shrink-0">{new Date(result.timestamp).toLocaleString()}</span>
+                                        </div>
+                                        <p className="mt-2 text-sm text-gray-300">
+                                            <HighlightedText text={result.snippet} terms={terms} />
+                                        </p>
+                                    </button>
+                                </li>
+                            ))}
+                        </ul>
+                    </>
+                )}
+            </div>
+        </div>
+    );
+};
@@ -0,0 +1,172 @@
+import React, { useState, useRef, useEffect } from 'react';
+import type { AIModelConfig, AiModel, Message } from '../types';
+import { AIError } from '../types';
+import { sendAIMessageStream } from '../services/aiService';
+import { readChatStream, type StreamedReply } from '../utils/chatStream';
+import { AI_MODELS, AI_MODEL_LABELS } from '../utils/aiModels';
+import { formatLatency } from '../utils/messageMetadata';
+import { Modal } from './common/Modal';
+import { MarkdownContent } from './common/MarkdownContent';
+import { SendIcon } from './icons/SendIcon';
+import { StopIcon } from './icons/StopIcon';
+import { LoaderIcon } from './icons/LoaderIcon';
+import { CheckCircleIcon } from './icons/CheckCircleIcon';
+
+type ColumnStatus = 'streaming' | 'done' | 'stopped' | 'error';
+
+interface ComparisonColumn {
+    status: ColumnStatus;
+    reply: StreamedReply;
+    error?: string;
+}
+
+const emptyReply: StreamedReply = { text: '', citations: [], metrics: {}, isDone: false };
+
+interface ModelComparisonProps {
+    history: Message[]; // The active thread, sent as context to every model
+    getModelConfig: (model: AiModel) => AIModelConfig; // The conversation's configuration, including its persona
+    onSave: (prompt: string, reply: Omit<Message, 'id' | 'parentId'>) => void;
+    onClose: () => void;
+}
+
+/**
+ * Sends one prompt to every model at once and streams the replies side by side,
+ * with timing and token usage, so the best answer can be kept in the conversation.
+ */
+export const ModelComparison: React.FC<ModelComparisonProps> = ({ history, getModelConfig, onSave, onClose }) => {
+    const [prompt, setPrompt] = useState('');
+    const [submittedPrompt, setSubmittedPrompt] = useState('');
+    const [columns, setColumns] = useState<Partial<Record<AiModel, ComparisonColumn>>>({});
+    const abortControllerRef = useRef<AbortController | null>(null);
+
+    const isRunning = Object.values(columns).some(column => column?.status === 'streaming');
+
+    // Stop every stream if the dialog is closed mid-comparison.
+    useEffect(() => () => abortControllerRef.current?.abort(), []);
+
+    const updateColumn = (model: AiModel, changes: Partial<ComparisonColumn>) =>
+        setColumns(prev => ({ ...prev, [model]: { ...prev[model]!, ...changes } }));
+
+    const runModel = async (model: AiModel, text: string, signal: AbortSignal) => {
+        try {
+            const stream = sendAIMessageStream(model, text, [], getModelConfig(model), { history, signal });
+            const reply = await readChatStream(stream, partial => updateColumn(model, { reply: partial }));
+            updateColumn(model, { status: reply.isDone ? 'done' : 'stopped' });
+        } catch (err) {
+            if (err instanceof DOMException && err.name === 'AbortError') {
+                updateColumn(model, { status: 'stopped' });
+                return;
+            }
+            updateColumn(model, { status: 'error', error: err instanceof AIError ? err.message : 'An unexpected error occurred.' });
+        }
+    };
+
+    const handleCompare = async () => {
+        const text = prompt.trim();
+        if (!text || isRunning) return;
+        abortControllerRef.current = new AbortController();
+        setSubmittedPrompt(text);
+        setColumns(Object.fromEntries(AI_MODELS.map(model => [model, { status: 'streaming', reply: emptyReply }])));
+        await Promise.all(AI_MODELS.map(model => runModel(model, text, abortControllerRef.current!.signal)));
+        abortControllerRef.current = null;
+    };
+
+    const handleSave = (model: AiModel, column: ComparisonColumn) => {
+        onSave(submittedPrompt, {
+            text: column.reply.text,
+            sender: 'model',
+            model,
+            createdAt: Date.now(),
+            metrics: column.reply.metrics,
+            ...(column.reply.citations.length > 0 && { citations: column.reply.citations }),
+            ...(column.status === 'stopped' && { interrupted: true }),
+        });
+    };
+
+    return (
+        <Modal isOpen onClose={onClose} title="Compare Models" size="xl">
+            <div className="space-y-4">
+                <div className="flex items-end gap-3">
+                    <textarea
+                        value={prompt}
+                        onChange={(e) => setPrompt(e.target.value)}
+                        onKeyDown={(e) => {
+                            if (e.key === 'Enter' && !e.shiftKey) {
+                                e.preventDefault();
+                                handleCompare();
+                            }
+                        }}
+                        rows={2}
+                        placeholder="Ask all models the same question..."
+                        className="flex-1 bg-background border border-border rounded-lg text-white p-2 focus:outline-none focus:ring-2 focus:ring-primary resize-y"
+                        aria-label="Prompt to compare"
+                        autoFocus
+                    />
+                    {isRunning ? (
+                        <button
+                            onClick={() => abortControllerRef.current?.abort()}
+                            className="p-3 rounded-full bg-error text-white hover:bg-red-600"
+                            aria-label="Stop all replies"
+                        >
+                            <StopIcon className="w-5 h-5" />
+                        </button>
+                    ) : (
+                        <button
+                            onClick={handleCompare}
+                            disabled={!prompt.trim()}
+                            className="p-3 rounded-full bg-blue-600 text-white hover:bg-blue-700 disabled:bg-blue-800 disabled:cursor-not-allowed"
+                            aria-label="Send to all models"
+                        >
+                            <SendIcon className="w-5 h-5" />
+                        </button>
+                    )}
+                </div>
+                {history.length > 0 && (
+                    <p className="text-xs text-text-secondary">The current conversation is sent along as context.</p>
+                )}
+
+                <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                    {AI_MODELS.map(model => {
+                        const column = columns[model];
+                        const metrics = column?.reply.metrics;
+                        return (
+                            <div key={model} className="flex flex-col min-w-0 bg-background/50 border border-border rounded-lg">
+                                <div className="flex items-center justify-between gap-2 px-3 py-2 border-b border-border">
+                                    <span className="font-semibold font-mono text-sm text-blue-300">{AI_MODEL_LABELS[model]}</span>
+                                    {column?.status === 'streaming' && <LoaderIcon className="w-4 h-4 animate-spin text-text-secondary" />}
+                                    {column?.status === 'stopped' && <span className="text-xs italic text-text-secondary">Interrupted</span>}
+                                </div>
+                                <div className="flex-1 h-72 overflow-y-auto p-3 text-sm text-gray-200">
+                                    {!column ? (
+                                        <p className="text-text-secondary">The reply will appear here.</p>
+                                    ) : column.status === 'error' ? (
+                                        <p className="text-error">Error: {column.error}</p>
+                                    ) : (
+                                        <MarkdownContent content={column.reply.text} />
+                                    )}
+                                </div>
+                                <div className="flex items-center justify-between gap-2 px-3 py-2 border-t border-border text-xs text-text-secondary">
+                                    <span className="font-mono">
+                                        {[
+                                            metrics?.timeToFirstTokenMs !== undefined && `First token ${formatLatency(metrics.timeToFirstTokenMs)}`,
+                                            metrics?.latencyMs !== undefined && `Total ${formatLatency(metrics.latencyMs)}`,
+                                            metrics?.usage && `${metrics.usage.promptTokens} in / ${metrics.usage.completionTokens} out tokens`,
+                                        ].filter(Boolean).join(' · ') || '—'}
+                                    </span>
+                                    <button
+                                        onClick={() => column && handleSave(model, column)}
+                                        disabled={!column || column.status === 'streaming' || column.status === 'error' || !column.reply.text}
+                                        className="flex items-center gap-1 px-2 py-1 rounded-md text-white bg-primary hover:bg-primary-hover disabled:opacity-40 disabled:cursor-not-allowed flex-shrink-0"
+                                    >
+                                        <CheckCircleIcon className="w-3.5 h-3.5" />
+                                        Use this
+                                    </button>
+                                </div>
+                            </div>
+                        );
+                    })}
+                </div>
+            </div>
+        </Modal>
+    );
+};
@@ -0,0 +1,211 @@
+import React, { useState } from 'react';
+import type { AiModel, Persona, PersonaLimits } from '../types';
+import { AIError } from '../types';
+import type { PersonaInput } from '../services/personaService';
+import { Modal } from './common/Modal';
+import { useAppContext } from '../contexts/AppContext';
+import { AI_MODELS, AI_MODEL_LABELS, DEFAULT_AI_MODEL } from '../utils/aiModels';
+import { ScopedItemActions } from './common/ScopedItemActions';
+import { ScopeSelect } from './common/ScopeSelect';
+import { inputClassName, primaryButtonClassName, secondaryButtonClassName } from './common/formStyles';
+import { PlusIcon } from './icons/PlusIcon';
+import { LoaderIcon } from './icons/LoaderIcon';
+
+interface PersonaEditorProps {
+    persona?: Persona;
+    limits: PersonaLimits;
+    canShare: boolean;
+    onSave: (values: PersonaInput) => Promise<void>;
+    onCancel: () => void;
+}
+
+const PersonaEditor: React.FC<PersonaEditorProps> = ({ persona, limits, canShare, onSave, onCancel }) => {
+    const [name, setName] = useState(persona?.name || '');
+    const [systemPrompt, setSystemPrompt] = useState(persona?.systemPrompt || '');
+    const [temperature, setTemperature] = useState(String(persona?.temperature ?? 0.7));
+    const [defaultModel, setDefaultModel] = useState<AiModel>(persona?.defaultModel || DEFAULT_AI_MODEL);
+    const [scope, setScope] = useState<Persona['scope']>(persona?.scope || 'personal');
+    const [isSaving, setIsSaving] = useState(false);
+    const [error, setError] = useState<string | null>(null);
+
+    const parsedTemperature = parseFloat(temperature);
+    const temperatureError = isNaN(parsedTemperature) || parsedTemperature < limits.minTemperature || parsedTemperature > limits.maxTemperature
+        ? `Must be a number between ${limits.minTemperature} and ${limits.maxTemperature}.`
+        : null;
+    const canSubmit = !!name.trim() && !!systemPrompt.trim() && !temperatureError && !isSaving;
+
+    const handleSubmit = async (e: React.FormEvent) => {
+        e.preventDefault();
+        if (!canSubmit) return;
+        setIsSaving(true);
+        setError(null);
+        try {
+            await onSave({ name: name.trim(), systemPrompt, temperature: parsedTemperature, defaultModel, scope });
+        } catch (err) {
+            setError(err instanceof AIError ? err.message : 'Failed to save the persona.');
+            setIsSaving(false);
+        }
+    };
+
+    return (
+        <form onSubmit={handleSubmit} className="space-y-4">
+            <div>
+                <label htmlFor="persona-name" className="block text-sm font-medium text-text-secondary mb-1">Name</label>
+                <input id="persona-name" value={name} onChange={(e) => setName(e.target.value)} className={inputClassName} autoFocus />
+            </div>
+            <div>
+                <label htmlFor="persona-prompt" className="block text-sm font-medium text-text-secondary mb-1">System Prompt</label>
+                <textarea
+                    id="persona-prompt"
+                    rows={6}
+                    value={systemPrompt}
+                    onChange={(e) => setSystemPrompt(e.target.value)}
+                    maxLength={limits.maxSystemPromptLength}
+                    className={`${inputClassName} font-mono text-sm`}
+                />
+                <p className="mt-1 text-xs text-text-secondary text-right">{systemPrompt.length} / {limits.maxSystemPromptLength}</p>
+            </div>
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                <div>
+                    <label htmlFor="persona-temperature" className="block text-sm font-medium text-text-secondary mb-1">Temperature</label>
+                    <input
+                        id="persona-temperature"
+                        type="number"
+                        step="0.1"
+                        min={limits.minTemperature}
+                        max={limits.maxTemperature}
+                        value={temperature}
+                        onChange={(e) => setTemperature(e.target.value)}
+                        className={`${inputClassName} font-mono ${temperatureError ? 'border-error' : ''}`}
+                    />
+                    {temperatureError && <p className="mt-1 text-xs text-error">{temperatureError}</p>}
+                </div>
+                <div>
+                    <label htmlFor="persona-model" className="block text-sm font-medium text-text-secondary mb-1">Default Model</label>
+                    <select id="persona-model" value={defaultModel} onChange={(e) => setDefaultModel(e.target.value as AiModel)} className={inputClassName}>
+                        {AI_MODELS.map(model => (
+                            <option key={model} value={model}>{AI_MODEL_LABELS[model]}</option>
+                        ))}
+                    </select>
+                </div>
+            </div>
+            {canShare && <ScopeSelect id="persona-scope" value={scope} onChange={setScope} />}
+            {error && <p className="text-sm text-error" role="alert">{error}</p>}
+            <div className="flex justify-end gap-3">
+                <button type="button" onClick={onCancel} className={secondaryButtonClassName}>Cancel</button>
+                <button type="submit" disabled={!canSubmit} className={primaryButtonClassName}>
+                    {isSaving ? 'Saving...' : 'Save Persona'}
+                </button>
+            </div>
+        </form>
+    );
+};
+
+interface PersonaManagerProps {
+    personas: Persona[];
+    limits: PersonaLimits;
+    isLoading: boolean;
+    error: string | null;
+    activePersonaId?: string;
+    onApply: (persona: Persona | null) => void;
+    onSavePersona: (input: PersonaInput, personaId?: string) => Promise<unknown>;
+    onDeletePersona: (personaId: string) => Promise<void>;
+    onClose: () => void;
+}
+
+/**
+ * Lists the personas available to the user, applies one to the current conversation,
+ * and creates or edits personal personas. Shared personas are managed by admins only.
+ */
+export const PersonaManager: React.FC<PersonaManagerProps> = ({
+    personas,
+    limits,
+    isLoading,
+    error,
+    activePersonaId,
+    onApply,
+    onSavePersona,
+    onDeletePersona,
+    onClose,
+}) => {
+    const { currentUser } = useAppContext();
+    const [editing, setEditing] = useState<{ persona?: Persona } | null>(null);
+    const [actionError, setActionError] = useState<string | null>(null);
+    const isAdmin = currentUser?.role === 'ADMIN';
+
+    const handleDelete = async (personaId: string) => {
+        setActionError(null);
+        try {
+            await onDeletePersona(personaId);
+            if (personaId === activePersonaId) onApply(null);
+        } catch (err) {
+            setActionError(err instanceof AIError ? err.message : 'Failed to delete the persona.');
+        }
+    };
+
+    const title = editing ? (editing.persona ? 'Edit Persona' : 'New Persona') : 'Personas';
+
+    return (
+        <Modal isOpen onClose={onClose} title={title} size="lg">
+            {editing ? (
+                <PersonaEditor
+                    persona={editing.persona}
+                    limits={limits}
+                    canShare={isAdmin}
+                    onSave={async values => {
+                        await onSavePersona(values, editing.persona?.id);
+                        setEditing(null);
+                    }}
+                    onCancel={() => setEditing(null)}
+                />
+            ) : (
+                <div className="space-y-4">
+                    <div className="flex items-center justify-between gap-3">
+                        <p className="text-sm text-text-secondary">A persona replaces the system prompt and temperature for this conversation.</p>
+                        <button onClick={() => setEditing({})} className={`${primaryButtonClassName} flex items-center gap-1 flex-shrink-0`}>
+                            <PlusIcon className="w-4 h-4" /> New
+                        </button>
+                    </div>
+
+                    {(error || actionError) && <p className="text-sm text-error" role="alert">{actionError || error}</p>}
+
+                    <div className="max-h-96 overflow-y-auto -mx-2">
+                        {isLoading ? (
+                            <div className="flex justify-center p-6"><LoaderIcon className="w-6 h-6 animate-spin text-text-secondary" /></div>
+                        ) : personas.length === 0 ? (
+                            <p className="p-4 text-center text-sm text-text-secondary">No personas yet. Create one to give a conversation its own instructions.</p>
+                        ) : (
+                            <ul className="divide-y divide-border">
+                                {personas.map(persona => (
+                                    <li key={persona.id} className="group flex items-start gap-2 px-2 hover:bg-background/50 rounded-lg">
+                                        <button onClick={() => onApply(persona)} className="flex-1 min-w-0 text-left py-3">
+                                            <p className="flex items-center gap-2 font-semibold text-white">
+                                                <span className="truncate">{persona.name}</span>
+                                                {persona.scope === 'shared' && (
+                                                    <span className="flex-shrink-0 text-[10px] uppercase tracking-wide text-primary bg-primary/10 px-1.5 py-0.5 rounded">Shared</span>
+                                                )}
+                                                {persona.id === activePersonaId && (
+                                                    <span className="flex-shrink-0 text-[10px] uppercase tracking-wide text-success bg-success/10 px-1.5 py-0.5 rounded">In use</span>
+                                                )}
+                                            </p>
+                                            <p className="mt-1 text-xs text-text-secondary font-mono">
+                                                {AI_MODEL_LABELS[persona.defaultModel]} · temperature {persona.temperature}
+                                            </p>
+                                            <p className="mt-1 text-xs text-text-secondary line-clamp-2 whitespace-pre-wrap">{persona.systemPrompt}</p>
+                                        </button>
+                                        <ScopedItemActions
+                                            scope={persona.scope}
+                                            label={persona.name}
+                                            onEdit={() => setEditing({ persona })}
+                                            onDelete={() => handleDelete(persona.id)}
+                                        />
+                                    </li>
+                                ))}
+                            </ul>
+                        )}
+                    </div>
+                </div>
+            )}
+        </Modal>
+    );
+};
@@ -6,6 +6,111 @@ import { SaveIcon } from './icons/SaveIcon';
 import { Toast } from './common/Toast';
 import { UserIcon } from './icons/UserIcon';
 import { UploadIcon } from './icons/UploadIcon';
+import { Volume2Icon } from './icons/Volume2Icon';
+import { useSpeechPreferences, useSpeechVoices } from '../hooks/useReadAloud';
+import { isSpeechSynthesisSupported, MIN_SPEECH_RATE, MAX_SPEECH_RATE } from '../utils/speech';
+
+const SPEECH_SAMPLE_TEXT = 'This is how replies will sound when read aloud.';
+
+/**
+ * Voice, language and speed for reading replies aloud. Changes apply right away
+ * and are saved in this browser, since the available voices differ per device.
+ */
+const ReadAloudSettings: React.FC = () => {
+    const [preferences, updatePreferences] = useSpeechPreferences();
+    const voices = useSpeechVoices();
+
+    const languages = Array.from(new Set([preferences.lang, ...voices.map(voice => voice.lang)])).sort();
+    // Match on the primary language so e.g. "en" voices are offered for "en-GB".
+    const primaryLanguage = preferences.lang.split('-')[0].toLowerCase();
+    const matchingVoices = voices.filter(voice => voice.lang.split(/[-_]/)[0].toLowerCase() === primaryLanguage);
+
+    const handleTest = () => {
+        speechSynthesis.cancel();
+        const utterance = new SpeechSynthesisUtterance(SPEECH_SAMPLE_TEXT);
+        const voice = voices.find(v => v.voiceURI === preferences.voiceURI);
+        utterance.lang = voice?.lang ?? preferences.lang;
+        utterance.rate = preferences.rate;
+        if (voice) utterance.voice = voice;
+        speechSynthesis.speak(utterance);
+    };
+
+    const selectClassName = 'mt-1 w-full bg-background border border-border rounded-lg text-white p-2 focus:outline-none focus:ring-2 focus:ring-primary';
+
+    return (
+        <Card title="Read Aloud" icon={<Volume2Icon className="w-6 h-6 text-text-secondary" />}>
+            {!isSpeechSynthesisSupported() ? (
+                <p className="text-text-secondary">Your browser does not support reading text aloud.</p>
+            ) : (
+                <div className="space-y-6">
+                    <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+                        <div>
+                            <label htmlFor="speechLang" className="block text-sm font-medium text-text-secondary">Language</label>
+                            <select
+                                id="speechLang"
+                                value={preferences.lang}
+                                onChange={(e) => updatePreferences({ lang: e.target.value, voiceURI: null })}
+                                className={selectClassName}
+                            >
+                                {languages.map(lang => <option key={lang} value={lang}>{lang}</option>)}
+                            </select>
+                        </div>
+                        <div>
+                            <label htmlFor="speechVoice" className="block text-sm font-medium text-text-secondary">Voice</label>
+                            <select
+                                id="speechVoice"
+                                value={preferences.voiceURI ?? ''}
+                                onChange={(e) => updatePreferences({ voiceURI: e.target.value || null })}
+                                className={selectClassName}
+                            >
+                                <option value="">Browser default</option>
+                                {matchingVoices.map(voice => (
+                                    <option key={voice.voiceURI} value={voice.voiceURI}>{voice.name} ({voice.lang})</option>
+                                ))}
+                            </select>
+                        </div>
+                    </div>
+                    <div>
+                        <label htmlFor="speechRate" className="block text-sm font-medium text-text-secondary">
+                            Speed <span className="font-mono">{preferences.rate.toFixed(1)}×</span>
+                        </label>
+                        <input
+                            id="speechRate"
+                            type="range"
+                            min={MIN_SPEECH_RATE}
+                            max={MAX_SPEECH_RATE}
+                            step="0.1"
+                            value={preferences.rate}
+                            onChange={(e) => updatePreferences({ rate: parseFloat(e.target.value) })}
+                            className="mt-2 w-full accent-primary"
+                        />
+                    </div>
+                    <div className="flex items-center">
+                        <input
+                            id="readWhileStreaming"
+                            type="checkbox"
+                            checked={preferences.readWhileStreaming}
+                            onChange={(e) => updatePreferences({ readWhileStreaming: e.target.checked })}
+                            className="h-4 w-4 text-primary bg-card border-border rounded focus:ring-primary"
+                        />
+                        <label htmlFor="readWhileStreaming" className="ml-2 text-sm text-text">
+                            Read new replies aloud as they arrive
+                        </label>
+                    </div>
+                    <div className="flex justify-end pt-6 border-t border-border">
+                        <button
+                            type="button"
+                            onClick={handleTest}
+                            className="px-6 py-2 bg-border text-white rounded-lg hover:bg-gray-600 font-semibold flex items-center gap-2"
+                        >
+                            <Volume2Icon className="w-5 h-5" /> Test Voice
+                        </button>
+                    </div>
+                </div>
+            )}
+        </Card>
+    );
+};
 
 export const ProfilePage: React.FC = () => {
     const { currentUser, updateCurrentUserProfile } = useAppContext();
@@ -172,6 +277,9 @@ export const ProfilePage: React.FC = () => {
             {/* FIX: Moved the closing </form> tag to correctly wrap the <Card> component. 
                 The previous mismatched tag order caused a JSX parsing error. */}
             </form>
+            <div className="mt-6">
+                <ReadAloudSettings />
+            </div>
             {showSuccessToast && <Toast message="Profile updated successfully!" onClose={() => setShowSuccessToast(false)} />}
         </div>
     );
@@ -0,0 +1,257 @@
+import React, { useState, useMemo } from 'react';
+import type { PromptTemplate } from '../types';
+import { AIError } from '../types';
+import { Modal } from './common/Modal';
+import { useAppContext } from '../contexts/AppContext';
+import { usePromptTemplates } from '../hooks/usePromptTemplates';
+import { extractTemplateVariables, fillTemplate } from '../utils/promptTemplates';
+import { ScopedItemActions } from './common/ScopedItemActions';
+import { ScopeSelect } from './common/ScopeSelect';
+import { inputClassName, primaryButtonClassName, secondaryButtonClassName } from './common/formStyles';
+import { PlusIcon } from './icons/PlusIcon';
+import { SearchIcon } from './icons/SearchIcon';
+import { LoaderIcon } from './icons/LoaderIcon';
+
+type ScopeFilter = 'all' | PromptTemplate['scope'];
+
+type LibraryView =
+    | { mode: 'list' }
+    | { mode: 'edit'; template?: PromptTemplate }
+    | { mode: 'fill'; template: PromptTemplate };
+
+interface TemplateEditorProps {
+    template?: PromptTemplate;
+    canShare: boolean;
+    onSave: (values: { title: string; content: string; scope: PromptTemplate['scope'] }) => Promise<void>;
+    onCancel: () => void;
+}
+
+const TemplateEditor: React.FC<TemplateEditorProps> = ({ template, canShare, onSave, onCancel }) => {
+    const [title, setTitle] = useState(template?.title || '');
+    const [content, setContent] = useState(template?.content || '');
+    const [scope, setScope] = useState<PromptTemplate['scope']>(template?.scope || 'personal');
+    const [isSaving, setIsSaving] = useState(false);
+    const [error, setError] = useState<string | null>(null);
+    const variables = extractTemplateVariables(content);
+
+    const handleSubmit = async (e: React.FormEvent) => {
+        e.preventDefault();
+        if (!title.trim() || !content.trim()) return;
+        setIsSaving(true);
+        setError(null);
+        try {
+            await onSave({ title: title.trim(), content, scope });
+        } catch (err) {
+            setError(err instanceof AIError ? err.message : 'Failed to save the template.');
+            setIsSaving(false);
+        }
+    };
+
+    return (
+        <form onSubmit={handleSubmit} className="space-y-4">
+            <div>
+                <label htmlFor="template-title" className="block text-sm font-medium text-text-secondary mb-1">Title</label>
+                <input id="template-title" value={title} onChange={(e) => setTitle(e.target.value)} className={inputClassName} autoFocus />
+            </div>
+            <div>
+                <label htmlFor="template-content" className="block text-sm font-medium text-text-secondary mb-1">Prompt</label>
+                <textarea
+                    id="template-content"
+                    rows={8}
+                    value={content}
+                    onChange={(e) => setContent(e.target.value)}
+                    className={`${inputClassName} font-mono text-sm`}
+                />
+                <p className="mt-1 text-xs text-text-secondary">
+                    Use <code className="font-mono">{'{{variable}}'}</code> for values to fill in when inserting.
+                    {variables.length > 0 && <> Variables: <span className="font-mono">{variables.join(', ')}</span></>}
+                </p>
+            </div>
+            {canShare && <ScopeSelect id="template-scope" value={scope} onChange={setScope} />}
+            {error && <p className="text-sm text-error" role="alert">{error}</p>}
+            <div className="flex justify-end gap-3">
+                <button type="button" onClick={onCancel} className={secondaryButtonClassName}>Cancel</button>
+                <button type="submit" disabled={isSaving || !title.trim() || !content.trim()} className={primaryButtonClassName}>
+                    {isSaving ? 'Saving...' : 'Save Template'}
+                </button>
+            </div>
+        </form>
+    );
+};
+
+interface TemplateFillFormProps {
+    template: PromptTemplate;
+    onInsert: (text: string) => void;
+    onBack: () => void;
+}
+
+const TemplateFillForm: React.FC<TemplateFillFormProps> = ({ template, onInsert, onBack }) => {
+    const variables = useMemo(() => extractTemplateVariables(template.content), [template.content]);
+    const [values, setValues] = useState<Record<string, string>>({});
+    const preview = fillTemplate(template.content, values);
+    const isComplete = variables.every(name => values[name]?.trim());
+
+    const handleSubmit = (e: React.FormEvent) => {
+        e.preventDefault();
+        if (isComplete) onInsert(preview);
+    };
+
+    return (
+        <form onSubmit={handleSubmit} className="space-y-4">
+            {variables.map((name, index) => (
+                <div key={name}>
+                    <label htmlFor={`template-var-${name}`} className="block text-sm font-medium text-text-secondary mb-1 font-mono">{name}</label>
+                    <input
+                        id={`template-var-${name}`}
+                        value={values[name] || ''}
+                        onChange={(e) => setValues(prev => ({ ...prev, [name]: e.target.value }))}
+                        className={inputClassName}
+                        autoFocus={index === 0}
+                    />
+                </div>
+            ))}
+            <div>
+                <p className="text-sm font-medium text-text-secondary mb-1">Preview</p>
+                <pre className="max-h-48 overflow-y-auto whitespace-pre-wrap break-words bg-background/50 border border-border rounded-lg p-3 text-sm text-gray-300 font-sans">
+                    {preview}
+                </pre>
+            </div>
+            <div className="flex justify-end gap-3">
+                <button type="button" onClick={onBack} className={secondaryButtonClassName}>Back</button>
+                <button type="submit" disabled={!isComplete} className={primaryButtonClassName}>Insert</button>
+            </div>
+        </form>
+    );
+};
+
+interface PromptLibraryProps {
+    onInsert: (text: string) => void;
+    onClose: () => void;
+}
+
+/**
+ * Lets the user pick a personal or shared prompt template, fill in its
+ * variables and insert the result. Personal templates can be managed here;
+ * shared ones only by admins.
+ */
+export const PromptLibrary: React.FC<PromptLibraryProps> = ({ onInsert, onClose }) => {
+    const { currentUser } = useAppContext();
+    const { templates, isLoading, error, saveTemplate, deleteTemplate } = usePromptTemplates();
+    const [view, setView] = useState<LibraryView>({ mode: 'list' });
+    const [scopeFilter, setScopeFilter] = useState<ScopeFilter>('all');
+    const [query, setQuery] = useState('');
+    const [actionError, setActionError] = useState<string | null>(null);
+    const isAdmin = currentUser?.role === 'ADMIN';
+
+    const filteredTemplates = useMemo(() => {
+        const lowerQuery = query.trim().toLowerCase();
+        return templates.filter(template =>
+            (scopeFilter === 'all' || template.scope === scopeFilter)
+            && (!lowerQuery || template.title.toLowerCase().includes(lowerQuery) || template.content.toLowerCase().includes(lowerQuery))
+        );
+    }, [templates, scopeFilter, query]);
+
+    const handleUse = (template: PromptTemplate) => {
+        if (extractTemplateVariables(template.content).length === 0) {
+            onInsert(template.content);
+        } else {
+            setView({ mode: 'fill', template });
+        }
+    };
+
+    const handleDelete = async (templateId: string) => {
+        setActionError(null);
+        try {
+            await deleteTemplate(templateId);
+        } catch (err) {
+            setActionError(err instanceof AIError ? err.message : 'Failed to delete the template.');
+        }
+    };
+
+    const title = view.mode === 'edit'
+        ? (view.template ? 'Edit Template' : 'New Template')
+        : view.mode === 'fill' ? view.template.title : 'Prompt Library';
+
+    return (
+        <Modal isOpen onClose={onClose} title={title} size="lg">
+            {view.mode === 'edit' && (
+                <TemplateEditor
+                    template={view.template}
+                    canShare={isAdmin}
+                    onSave={async values => {
+                        await saveTemplate(values, view.template?.id);
+                        setView({ mode: 'list' });
+                    }}
+                    onCancel={() => setView({ mode: 'list' })}
+                />
+            )}
+            {view.mode === 'fill' && (
+                <TemplateFillForm template={view.template} onInsert={onInsert} onBack={() => setView({ mode: 'list' })} />
+            )}
+            {view.mode === 'list' && (
+                <div className="space-y-4">
+                    <div className="flex items-center gap-3">
+                        <div className="relative flex-1">
+                            <SearchIcon className="absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 text-text-secondary" />
+                            <input
+                                type="text"
+                                value={query}
+                                onChange={(e) => setQuery(e.target.value)}
+                                placeholder="Search templates..."
+                                className={`${inputClassName} pl-9 text-sm`}
+                                aria-label="Search templates"
+                            />
+                        </div>
+                        <select
+                            value={scopeFilter}
+                            onChange={(e) => setScopeFilter(e.target.value as ScopeFilter)}
+                            className="bg-background border border-border rounded-lg text-sm text-white p-2 focus:outline-none focus:ring-2 focus:ring-primary"
+                            aria-label="Filter templates"
+                        >
+                            <option value="all">All</option>
+                            <option value="personal">Personal</option>
+                            <option value="shared">Shared</option>
+                        </select>
+                        <button onClick={() => setView({ mode: 'edit' })} className={`${primaryButtonClassName} flex items-center gap-1`}>
+                            <PlusIcon className="w-4 h-4" /> New
+                        </button>
+                    </div>
+
+                    {(error || actionError) && <p className="text-sm text-error" role="alert">{actionError || error}</p>}
+
+                    <div className="max-h-96 overflow-y-auto -mx-2">
+                        {isLoading ? (
+                            <div className="flex justify-center p-6"><LoaderIcon className="w-6 h-6 animate-spin text-text-secondary" /></div>
+                        ) : filteredTemplates.length === 0 ? (
+                            <p className="p-4 text-center text-sm text-text-secondary">
+                                {templates.length === 0 ? 'No templates yet. Create one to reuse your prompts.' : 'No templates match your search.'}
+                            </p>
+                        ) : (
+                            <ul className="divide-y divide-border">
+                                {filteredTemplates.map(template => (
+                                    <li key={template.id} className="group flex items-start gap-2 px-2 hover:bg-background/50 rounded-lg">
+                                        <button onClick={() => handleUse(template)} className="flex-1 min-w-0 text-left py-3">
+                                            <p className="flex items-center gap-2 font-semibold text-white">
+                                                <span className="truncate">{template.title}</span>
+                                                {template.scope === 'shared' && (
+                                                    <span className="flex-shrink-0 text-[10px] uppercase tracking-wide text-primary bg-primary/10 px-1.5 py-0.5 rounded">Shared</span>
+                                                )}
+                                            </p>
+                                            <p className="mt-1 text-xs text-text-secondary line-clamp-2 whitespace-pre-wrap">{template.content}</p>
+                                        </button>
+                                        <ScopedItemActions
+                                            scope={template.scope}
+                                            label={template.title}
+                                            onEdit={() => setView({ mode: 'edit', template })}
+                                            onDelete={() => handleDelete(template.id)}
+                                        />
+                                    </li>
+                                ))}
+                            </ul>
+                        )}
+                    </div>
+                </div>
+            )}
+        </Modal>
+    );
+};
@@ -6,6 +6,7 @@ import { VideoIcon } from './icons/VideoIcon';
 import { ShieldIcon } from './icons/ShieldIcon';
 import { DownloadCloudIcon } from './icons/DownloadCloudIcon';
 import { UserIcon } from './icons/UserIcon';
+import { SearchIcon } from './icons/SearchIcon';
 
 interface SidebarProps {
   currentView: View;
@@ -65,6 +66,12 @@ export const Sidebar: React.FC<SidebarProps> = ({
             isActive={currentView === 'video'}
             onClick={() => setCurrentView('video')}
           />
+          <NavItem
+            icon={<SearchIcon />}
+            label="Search"
+            isActive={currentView === 'search'}
+            onClick={() => setCurrentView('search')}
+          />
           <NavItem
             icon={<UserIcon />}
             label="Profile"
@@ -1,7 +1,8 @@
 
 
-import React, { useState, useEffect, useRef } from 'react';
+import React, { useState, useEffect } from 'react';
 import type { TranscriptionSegment } from '../types';
+import { useVirtualList } from '../hooks/useVirtualList';
 import { Card } from './common/Card';
 import { Toast } from './common/Toast';
 import { CopyIcon } from './icons/CopyIcon';
@@ -12,24 +13,18 @@ interface TranscriptionViewerProps {
     activeSegmentIndex: number;
 }
 
+// Height assumed for a segment before it has been rendered and measured.
+const SEGMENT_SIZE_ESTIMATE = 72;
+
 export const TranscriptionViewer: React.FC<TranscriptionViewerProps> = ({ transcription, onSegmentClick, activeSegmentIndex }) => {
     const [toastMessage, setToastMessage] = useState<string | null>(null);
-    const itemRefs = useRef<(HTMLDivElement | null)[]>([]);
+    // Multi-hour transcripts have thousands of segments, so only those near the viewport are rendered.
+    const segmentList = useVirtualList({ count: transcription.length, estimateSize: SEGMENT_SIZE_ESTIMATE });
+    const { scrollToIndex } = segmentList;
 
     useEffect(() => {
-        // Ensure the refs array is the same size as the transcription array.
-        itemRefs.current = itemRefs.current.slice(0, transcription.length);
-    }, [transcription]);
-
-    useEffect(() => {
-        const activeItem = itemRefs.current[activeSegmentIndex];
-        if (activeItem) {
-            activeItem.scrollIntoView({
-                behavior: 'smooth',
-                block: 'center',
-            });
-        }
-    }, [activeSegmentIndex]);
+        scrollToIndex(activeSegmentIndex, { align: 'center', behavior: 'smooth' });
+    }, [activeSegmentIndex, scrollToIndex]);
 
     const handleCopy = async (textToCopy: string) => {
         try {
@@ -72,42 +67,51 @@ export const TranscriptionViewer: React.FC<TranscriptionViewerProps> = ({ transc
     return (
         <>
             <Card title="Interactive Transcription">
-                <div className="max-h-[22rem] overflow-y-auto space-y-2 pr-2">
-                    {transcription.map((segment, index) => {
-                        const hasTimestamp = segment.start > 0 || segment.end > 0 || segment.start !== segment.end;
-                        return (
-                            <div
-                                key={index}
-                                ref={el => { itemRefs.current[index] = el; }}
-                                className={`group w-full flex items-start justify-between gap-4 p-3 rounded-lg transition-colors duration-200 ${
-                                    activeSegmentIndex === index ? 'bg-blue-900/70' : 'hover:bg-gray-700/50'
-                                }`}
-                            >
-                                <button
-                                    type="button" 
-                                    className="flex-1 text-left"
-                                    onClick={() => onSegmentClick(segment.start)}
-                                    aria-label={hasTimestamp ? `Play from ${formatTime(segment.start)}` : segment.text}
-                                >
-                                    {hasTimestamp && (
-                                        <p className="text-xs font-mono text-blue-400 mb-1">
-                                            {formatTime(segment.start)} - {formatTime(segment.end)}
-                                        </p>
-                                    )}
-                                    <p className="text-sm text-gray-300 leading-relaxed">
-                                        {segment.text}
-                                    </p>
-                                </button>
-                                <button
-                                    onClick={() => handleCopy(segment.text)}
-                                    className="p-2 text-gray-400 hover:text-white rounded-full hover:bg-gray-600 transition-all opacity-0 group-hover:opacity-100 focus:opacity-100 flex-shrink-0 self-center"
-                                    aria-label="Copy segment to clipboard"
+                <div ref={segmentList.scrollRef} className="max-h-[22rem] overflow-y-auto pr-2">
+                    <div ref={segmentList.listRef} className="relative" style={{ height: segmentList.totalSize }}>
+                        {segmentList.virtualItems.map(({ index, key, start }) => {
+                            const segment = transcription[index];
+                            const hasTimestamp = segment.start > 0 || segment.end > 0 || segment.start !== segment.end;
+                            return (
+                                <div
+                                    key={key}
+                                    data-index={index}
+                                    ref={segmentList.measureElement}
+                                    className={`absolute inset-x-0 top-0 ${index < transcription.length - 1 ? 'pb-2' : ''}`}
+                                    style={{ transform: `translateY(${start}px)` }}
                                 >
-                                    <CopyIcon className="w-4 h-4" />
-                                </button>
-                            </div>
-                        );
-                    })}
+                                    <div
+                                        className={`group w-full flex items-start justify-between gap-4 p-3 rounded-lg transition-colors duration-200 ${
+                                            activeSegmentIndex === index ? 'bg-blue-900/70' : 'hover:bg-gray-700/50'
+                                        }`}
+                                    >
+                                        <button
+                                            type="button" 
+                                            className="flex-1 text-left"
+                                            onClick={() => onSegmentClick(segment.start)}
+                                            aria-label={hasTimestamp ? `Play from ${formatTime(segment.start)}` : segment.text}
+                                        >
+                                            {hasTimestamp && (
+                                                <p className="text-xs font-mono text-blue-400 mb-1">
+                                                    {formatTime(segment.start)} - {formatTime(segment.end)}
+                                                </p>
+                                            )}
+                                            <p className="text-sm text-gray-300 leading-relaxed">
+                                                {segment.text}
+                                            </p>
+                                        </button>
+                                        <button
+                                            onClick={() => handleCopy(segment.text)}
+                                            className="p-2 text-gray-400 hover:text-white rounded-full hover:bg-gray-600 transition-all opacity-0 group-hover:opacity-100 focus:opacity-100 flex-shrink-0 self-center"
+                                            aria-label="Copy segment to clipboard"
+                                        >
+                                            <CopyIcon className="w-4 h-4" />
+                                        </button>
+                                    </div>
+                                </div>
+                            );
+                        })}
+                    </div>
                 </div>
                 <div className="flex justify-end mt-2 border-t border-border pt-2">
                     {copyAllButton}
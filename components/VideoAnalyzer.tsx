@@ -1,17 +1,20 @@
-import React, { useState, useRef, useEffect } from 'react';
+import React, { useState, useRef, useEffect, useCallback } from 'react';
 import { useAppContext } from '../contexts/AppContext';
 import { analyzeVideoWithAI } from '../services/aiService';
-import type { VideoAnalysisResult, VideoAnalysisHistoryItem, VideoMetadata, TranscriptionSegment } from '../types';
+import type { VideoAnalysisResult, VideoAnalysisHistoryItem, VideoMetadata, TranscriptionSegment, NavigationTarget } from '../types';
 import { UploadIcon } from './icons/UploadIcon';
 import { LoaderIcon } from './icons/LoaderIcon';
 import { TranscriptionViewer } from './TranscriptionViewer';
+import { VideoChatPanel } from './VideoChatPanel';
+import { PromptLibrary } from './PromptLibrary';
+import { BookOpenIcon } from './icons/BookOpenIcon';
 import { SentimentAnalysis } from './SentimentAnalysis';
 import { Card } from './common/Card';
 import { exportAnalysisToCsv, exportAnalysisToPdf, formatBytes, formatDuration } from '../utils/exportUtils';
 import { HistoryIcon } from './icons/HistoryIcon';
 import { TrashIcon } from './icons/TrashIcon';
 import { FileDownIcon } from './icons/FileDownIcon';
-import useLocalStorageState from '../hooks/useLocalStorageState';
+import { useVideoHistory } from '../hooks/useVideoHistory';
 import { AIError } from '../types';
 import { YouTubeIcon } from './icons/YouTubeIcon';
 import { LinkIcon } from './icons/LinkIcon';
@@ -20,7 +23,12 @@ import { ChevronDownIcon } from './icons/ChevronDownIcon';
 import { validateVideoUrl } from '../utils/validation';
 import { PencilLineIcon } from './icons/PencilLineIcon';
 
-export const VideoAnalyzer: React.FC = () => {
+interface VideoAnalyzerProps {
+    target: Extract<NavigationTarget, { type: 'segment' }> | null; // A transcript segment to open, e.g. from global search
+    onTargetHandled: () => void;
+}
+
+export const VideoAnalyzer: React.FC<VideoAnalyzerProps> = ({ target, onTargetHandled }) => {
     const [inputType, setInputType] = useState<'upload' | 'url'>('upload');
     const [videoFile, setVideoFile] = useState<File | null>(null);
     const [videoUrl, setVideoUrl] = useState('');
@@ -30,18 +38,22 @@ export const VideoAnalyzer: React.FC = () => {
     const [error, setError] = useState<string | null>(null);
     const [analysisResult, setAnalysisResult] = useState<VideoAnalysisResult | null>(null);
     const [activeSegmentIndex, setActiveSegmentIndex] = useState(-1);
-    const [history, setHistory] = useLocalStorageState<VideoAnalysisHistoryItem[]>('videoAnalysisHistory', []);
+    const [history, setHistory] = useVideoHistory();
     const [uploadProgress, setUploadProgress] = useState(0);
     const [videoMetadata, setVideoMetadata] = useState<VideoMetadata | null>(null);
     const [isExportMenuOpen, setIsExportMenuOpen] = useState(false);
     const [showManualTranscriptInput, setShowManualTranscriptInput] = useState(false);
     const [manualTranscript, setManualTranscript] = useState('');
+    const [isPromptLibraryOpen, setIsPromptLibraryOpen] = useState(false);
     
     const { aiConfig } = useAppContext();
     const videoRef = useRef<HTMLVideoElement>(null);
     const fileInputRef = useRef<HTMLInputElement>(null);
     const abortControllerRef = useRef<AbortController | null>(null);
     const exportMenuRef = useRef<HTMLDivElement>(null);
+    // Called through a ref so a new callback from the parent doesn't re-open the target.
+    const onTargetHandledRef = useRef(onTargetHandled);
+    onTargetHandledRef.current = onTargetHandled;
 
     const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
         const file = e.target.files?.[0];
@@ -220,7 +232,7 @@ export const VideoAnalyzer: React.FC = () => {
         }
     };
 
-    const loadFromHistory = (item: VideoAnalysisHistoryItem) => {
+    const loadFromHistory = useCallback((item: VideoAnalysisHistoryItem) => {
         setAnalysisResult(item.result);
         setVideoFile(null); // No way to restore file object
         const url = item.sourceType === 'url' ? item.sourceName : '';
@@ -236,7 +248,21 @@ export const VideoAnalyzer: React.FC = () => {
             setShowManualTranscriptInput(false);
             setManualTranscript('');
         }
-    }
+    }, []);
+
+    // Open the requested analysis from history with the target segment highlighted.
+    useEffect(() => {
+        if (!target) return;
+        onTargetHandledRef.current();
+        const item = history.find(entry => entry.id === target.historyId);
+        if (!item) {
+            setError('That analysis is no longer in your history.');
+            return;
+        }
+        setError(null);
+        loadFromHistory(item);
+        setActiveSegmentIndex(target.segmentIndex);
+    }, [target, history, loadFromHistory]);
     
     const clearHistory = () => {
         setHistory([]);
@@ -337,7 +363,17 @@ export const VideoAnalyzer: React.FC = () => {
                             )}
 
                             <div>
-                                <label htmlFor="prompt" className="block text-sm font-medium text-text-secondary mb-2">Analysis Prompt</label>
+                                <div className="flex items-center justify-between mb-2">
+                                    <label htmlFor="prompt" className="block text-sm font-medium text-text-secondary">Analysis Prompt</label>
+                                    <button
+                                        type="button"
+                                        onClick={() => setIsPromptLibraryOpen(true)}
+                                        className="flex items-center gap-1.5 text-sm text-text-secondary hover:text-white"
+                                    >
+                                        <BookOpenIcon className="w-4 h-4" />
+                                        <span>Templates</span>
+                                    </button>
+                                </div>
                                 <textarea
                                     id="prompt"
                                     rows={inputType === 'upload' ? 4 : 1}
@@ -345,6 +381,15 @@ export const VideoAnalyzer: React.FC = () => {
                                     value={prompt}
                                     onChange={(e) => setPrompt(e.target.value)}
                                 />
+                                {isPromptLibraryOpen && (
+                                    <PromptLibrary
+                                        onInsert={(text) => {
+                                            setPrompt(text);
+                                            setIsPromptLibraryOpen(false);
+                                        }}
+                                        onClose={() => setIsPromptLibraryOpen(false)}
+                                    />
+                                )}
                             </div>
                         </div>
                         
@@ -462,11 +507,14 @@ export const VideoAnalyzer: React.FC = () => {
                                             </div>
                                         </Card>
                                     </div>
-                                    <TranscriptionViewer
-                                        transcription={analysisResult.transcription}
-                                        onSegmentClick={handleSegmentClick}
-                                        activeSegmentIndex={activeSegmentIndex}
-                                    />
+                                    <div className="space-y-6">
+                                        <TranscriptionViewer
+                                            transcription={analysisResult.transcription}
+                                            onSegmentClick={handleSegmentClick}
+                                            activeSegmentIndex={activeSegmentIndex}
+                                        />
+                                        <VideoChatPanel analysis={analysisResult} onTimestampClick={handleSegmentClick} />
+                                    </div>
                                 </div>
                             )}
                         </>
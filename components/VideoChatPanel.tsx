@@ -0,0 +1,127 @@
+import React, { useState, useRef, useEffect } from 'react';
+import { useAppContext } from '../contexts/AppContext';
+import type { AiModel, Message, VideoAnalysisResult } from '../types';
+import { AIError } from '../types';
+import { askAboutVideoStream } from '../services/aiService';
+import { ChatStreamError, readChatStream } from '../utils/chatStream';
+import { useReadAloud } from '../hooks/useReadAloud';
+import { Card } from './common/Card';
+import { ChatBubble } from './common/ChatBubble';
+import { ChatInput } from './common/ChatInput';
+import { MessageSquareIcon } from './icons/MessageSquareIcon';
+
+// Video analysis runs on Gemini, so follow-up questions use the same model.
+const VIDEO_CHAT_MODEL: AiModel = 'gemini';
+
+interface VideoChatPanelProps {
+    analysis: VideoAnalysisResult;
+    onTimestampClick: (time: number) => void;
+}
+
+/**
+ * Answers follow-up questions about an analyzed video, grounded on its summary,
+ * keywords and transcript. Timestamps cited in answers seek the video player.
+ */
+export const VideoChatPanel: React.FC<VideoChatPanelProps> = ({ analysis, onTimestampClick }) => {
+    const { aiConfig } = useAppContext();
+    const [messages, setMessages] = useState<Message[]>([]);
+    const [isLoading, setIsLoading] = useState(false);
+    const messagesEndRef = useRef<HTMLDivElement>(null);
+    const abortControllerRef = useRef<AbortController | null>(null);
+    const readAloud = useReadAloud();
+
+    // Start over when another analysis is shown, and stop any reply still streaming.
+    useEffect(() => {
+        setMessages([]);
+        return () => abortControllerRef.current?.abort();
+    }, [analysis]);
+
+    useEffect(() => {
+        if (messages.length === 0) return;
+        messagesEndRef.current?.scrollIntoView({ behavior: 'smooth', block: 'nearest' });
+    }, [messages]);
+
+    const handleAsk = async (question: string) => {
+        if (!question.trim()) return;
+        const history = messages;
+        const questionMessage: Message = { id: Date.now().toString(), text: question, sender: 'user', createdAt: Date.now() };
+        const answerId = (Date.now() + 1).toString();
+        const answerMessage: Message = { id: answerId, text: '', sender: 'model', model: VIDEO_CHAT_MODEL, createdAt: Date.now() };
+        setMessages(prev => [...prev, questionMessage, answerMessage]);
+
+        const updateAnswer = (changes: Partial<Message>) =>
+            setMessages(prev => prev.map(msg => msg.id === answerId ? { ...msg, ...changes } : msg));
+
+        setIsLoading(true);
+        abortControllerRef.current = new AbortController();
+        readAloud.startFollowing(answerId);
+        try {
+            const stream = askAboutVideoStream(VIDEO_CHAT_MODEL, question, analysis, aiConfig[VIDEO_CHAT_MODEL], {
+                history,
+                signal: abortControllerRef.current.signal,
+            });
+            const reply = await readChatStream(stream, partial => {
+                updateAnswer({
+                    text: partial.text,
+                    metrics: partial.metrics,
+                    ...(partial.citations.length > 0 && { citations: partial.citations }),
+                });
+                readAloud.follow(answerId, partial.text);
+            });
+            readAloud.finishFollowing(answerId, reply.text);
+            if (!reply.isDone) {
+                updateAnswer({ interrupted: true });
+            }
+        } catch (err) {
+            readAloud.stopFollowing(answerId);
+            if (err instanceof DOMException && err.name === 'AbortError') {
+                updateAnswer({ interrupted: true });
+                return;
+            }
+            if (err instanceof ChatStreamError && err.reply.text) {
+                updateAnswer({ metrics: err.reply.metrics, interrupted: true, interruptionReason: err.message });
+                return;
+            }
+            const errorMessage = err instanceof AIError ? err.message : 'An unexpected error occurred.';
+            updateAnswer({ text: `Error: ${errorMessage}`, isError: true });
+        } finally {
+            setIsLoading(false);
+            abortControllerRef.current = null;
+        }
+    };
+
+    return (
+        <Card title="Ask This Video" icon={<MessageSquareIcon className="w-5 h-5 text-text-secondary" />}>
+            <div className="max-h-[26rem] overflow-y-auto space-y-4 pr-2">
+                {messages.length === 0 ? (
+                    <p className="text-sm text-text-secondary">
+                        Ask a follow-up question about this video. Answers cite transcript timestamps you can click to jump to that moment.
+                    </p>
+                ) : (
+                    messages.map((msg, index) => (
+                        <ChatBubble
+                            key={msg.id}
+                            message={msg}
+                            isLoading={isLoading && index === messages.length - 1}
+                            onTimestampClick={onTimestampClick}
+                            isSpeaking={readAloud.speakingMessageId === msg.id}
+                            onToggleSpeech={readAloud.isSupported
+                                ? () => (readAloud.speakingMessageId === msg.id ? readAloud.stop() : readAloud.speak(msg.id, msg.text))
+                                : undefined}
+                        />
+                    ))
+                )}
+                <div ref={messagesEndRef} />
+            </div>
+            <div className="mt-4 -mx-5 -mb-5 rounded-b-lg overflow-hidden">
+                <ChatInput
+                    onSendMessage={handleAsk}
+                    onStop={() => abortControllerRef.current?.abort()}
+                    isLoading={isLoading}
+                    allowAttachments={false}
+                    placeholder="Ask about this video..."
+                />
+            </div>
+        </Card>
+    );
+};
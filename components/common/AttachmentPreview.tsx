@@ -0,0 +1,128 @@
+import React, { useState, useEffect } from 'react';
+import type { MessageFile } from '../../types';
+import { Modal } from './Modal';
+import { FileTextIcon } from '../icons/FileTextIcon';
+import { ImageIcon } from '../icons/ImageIcon';
+import { EyeIcon } from '../icons/EyeIcon';
+import { DownloadIcon } from '../icons/DownloadIcon';
+import { getAttachmentBlob } from '../../utils/attachmentStore';
+import { downloadBlob, formatBytes } from '../../utils/exportUtils';
+
+// Larger text files are cut off in the preview; they can still be downloaded in full.
+const MAX_TEXT_PREVIEW_CHARS = 100_000;
+
+const TEXT_EXTENSIONS = ['.txt', '.md', '.csv', '.json', '.log'];
+
+type PreviewKind = 'image' | 'pdf' | 'text' | null;
+
+const getPreviewKind = (file: MessageFile): PreviewKind => {
+    if (file.type.startsWith('image/')) return 'image';
+    if (file.type === 'application/pdf') return 'pdf';
+    const name = file.name.toLowerCase();
+    if (file.type.startsWith('text/') || file.type === 'application/json' || TEXT_EXTENSIONS.some(ext => name.endsWith(ext))) {
+        return 'text';
+    }
+    return null;
+};
+
+interface AttachmentPreviewProps {
+    file: MessageFile;
+}
+
+/**
+ * Shows a chat attachment from the local attachment store: images as thumbnails,
+ * PDFs and text files behind a preview dialog. Attachments whose contents aren't
+ * stored on this device (e.g. synced from another one) are listed by name only.
+ */
+export const AttachmentPreview: React.FC<AttachmentPreviewProps> = ({ file }) => {
+    const [blob, setBlob] = useState<Blob | null>(null);
+    const [objectUrl, setObjectUrl] = useState<string | null>(null);
+    const [textContent, setTextContent] = useState<string | null>(null);
+    const [isPreviewOpen, setIsPreviewOpen] = useState(false);
+    const kind = getPreviewKind(file);
+
+    useEffect(() => {
+        if (!file.id) return;
+        let cancelled = false;
+        getAttachmentBlob(file.id).then(stored => {
+            if (!cancelled) setBlob(stored);
+        });
+        return () => { cancelled = true; };
+    }, [file.id]);
+
+    useEffect(() => {
+        if (!blob || (kind !== 'image' && kind !== 'pdf')) return;
+        const url = URL.createObjectURL(blob);
+        setObjectUrl(url);
+        return () => URL.revokeObjectURL(url);
+    }, [blob, kind]);
+
+    useEffect(() => {
+        if (!isPreviewOpen || kind !== 'text' || !blob || textContent !== null) return;
+        blob.text().then(setTextContent).catch(err => {
+            console.error(`Failed to read "${file.name}":`, err);
+            setTextContent('');
+        });
+    }, [isPreviewOpen, kind, blob, textContent, file.name]);
+
+    const handleDownload = () => {
+        if (blob) downloadBlob(blob, file.name);
+    };
+
+    const isTruncated = !!textContent && textContent.length > MAX_TEXT_PREVIEW_CHARS;
+
+    return (
+        <div className="bg-gray-600/50 rounded-lg overflow-hidden">
+            {kind === 'image' && objectUrl && (
+                <button onClick={() => setIsPreviewOpen(true)} className="block w-full" aria-label={`View ${file.name}`}>
+                    <img src={objectUrl} alt={file.name} className="max-h-48 w-full object-cover" />
+                </button>
+            )}
+            <div className="p-2 flex items-center gap-2">
+                {kind === 'image'
+                    ? <ImageIcon className="w-5 h-5 flex-shrink-0 text-gray-400"/>
+                    : <FileTextIcon className="w-5 h-5 flex-shrink-0 text-gray-400"/>}
+                <span className="text-xs text-gray-300 font-mono truncate">{file.name}</span>
+                <span className="text-xs text-gray-400 flex-shrink-0">{formatBytes(file.size, 1)}</span>
+                {blob ? (
+                    <div className="ml-auto flex items-center flex-shrink-0 text-gray-400">
+                        {kind && (
+                            <button onClick={() => setIsPreviewOpen(true)} className="p-1 rounded hover:text-white" aria-label={`Preview ${file.name}`}>
+                                <EyeIcon className="w-4 h-4" />
+                            </button>
+                        )}
+                        <button onClick={handleDownload} className="p-1 rounded hover:text-white" aria-label={`Download ${file.name}`}>
+                            <DownloadIcon className="w-4 h-4" />
+                        </button>
+                    </div>
+                ) : (
+                    <span className="ml-auto text-xs italic text-gray-500 flex-shrink-0" title="The file's contents aren't stored on this device">
+                        Not available
+                    </span>
+                )}
+            </div>
+            <Modal isOpen={isPreviewOpen} onClose={() => setIsPreviewOpen(false)} title={file.name} size="xl">
+                {kind === 'image' && objectUrl && (
+                    <img src={objectUrl} alt={file.name} className="max-h-[70vh] mx-auto rounded" />
+                )}
+                {kind === 'pdf' && objectUrl && (
+                    <iframe src={objectUrl} title={file.name} className="w-full h-[70vh] rounded bg-white" />
+                )}
+                {kind === 'text' && (
+                    textContent === null ? (
+                        <p className="text-sm text-gray-400">Loading preview...</p>
+                    ) : (
+                        <>
+                            <pre className="max-h-[65vh] overflow-auto whitespace-pre-wrap break-words bg-black/40 rounded-lg p-3 font-mono text-xs text-gray-200">
+                                {isTruncated ? textContent.slice(0, MAX_TEXT_PREVIEW_CHARS) : textContent}
+                            </pre>
+                            {isTruncated && (
+                                <p className="mt-2 text-xs text-gray-400">Preview truncated. Download the file to see all of it.</p>
+                            )}
+                        </>
+                    )
+                )}
+            </Modal>
+        </div>
+    );
+};
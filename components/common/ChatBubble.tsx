@@ -1,44 +1,21 @@
-import React from 'react';
-import type { Message } from '../../types';
-import { FileTextIcon } from '../icons/FileTextIcon';
-
-const escapeRegExp = (str: string) => str.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
-
-const renderFormattedText = (text: string, highlight?: string) => {
-  const highlightTerm = highlight?.trim();
-
-  // This function will process a chunk of text for markdown.
-  const processMarkdown = (part: string, keyPrefix: string) => {
-    // Return early if part is empty
-    if (!part) return null;
-
-    const markdownParts = part.split(/(\*\*.*?\*\*|\*.*?\*)/g);
-    return markdownParts.map((mdPart, mdIndex) => {
-      if (mdPart.startsWith('**') && mdPart.endsWith('**')) {
-        return <strong key={`${keyPrefix}-${mdIndex}`}>{mdPart.slice(2, -2)}</strong>;
-      }
-      if (mdPart.startsWith('*') && mdPart.endsWith('*')) {
-        return <em key={`${keyPrefix}-${mdIndex}`}>{mdPart.slice(1, -1)}</em>;
-      }
-      return mdPart;
-    });
-  };
-
-  if (!highlightTerm) {
-    return processMarkdown(text, 'md');
-  }
-
-  const regex = new RegExp(`(${escapeRegExp(highlightTerm)})`, 'gi');
-  const parts = text.split(regex);
-
-  return parts.map((part, index) => {
-    if (part.toLowerCase() === highlightTerm.toLowerCase()) {
-      return <mark key={`highlight-${index}`} className="bg-yellow-500/70 text-white rounded px-0.5">{part}</mark>;
-    }
-    // For non-highlighted parts, process them for markdown
-    return processMarkdown(part, `part-${index}`);
-  });
-};
+import React, { useState } from 'react';
+import type { Citation, Message, MessageFeedback } from '../../types';
+import { MarkdownContent } from './MarkdownContent';
+import { AttachmentPreview } from './AttachmentPreview';
+import { EditIcon } from '../icons/EditIcon';
+import { RefreshCwIcon } from '../icons/RefreshCwIcon';
+import { ChevronLeftIcon } from '../icons/ChevronLeftIcon';
+import { ChevronRightIcon } from '../icons/ChevronRightIcon';
+import { Volume2Icon } from '../icons/Volume2Icon';
+import { StopIcon } from '../icons/StopIcon';
+import { ThumbsUpIcon } from '../icons/ThumbsUpIcon';
+import { ThumbsDownIcon } from '../icons/ThumbsDownIcon';
+import { ClockIcon } from '../icons/ClockIcon';
+import { PinIcon } from '../icons/PinIcon';
+import { TrashIcon } from '../icons/TrashIcon';
+import { AI_MODEL_LABELS } from '../../utils/aiModels';
+import { getMessageMetadata } from '../../utils/messageMetadata';
+import { formatTimestamp } from '../../utils/timestamps';
 
 const TypingIndicator: React.FC = () => (
     <div className="flex items-center space-x-1.5">
@@ -48,35 +25,319 @@ const TypingIndicator: React.FC = () => (
     </div>
 );
 
+const isWebUrl = (url?: string): url is string => !!url && /^https?:\/\//i.test(url);
+
+const CitationLabel: React.FC<{ citation: Citation; onTimestampClick?: (time: number) => void }> = ({ citation, onTimestampClick }) => {
+  const label = citation.title || citation.quote || citation.url || 'Source';
+  return (
+    <span>
+      {citation.start !== undefined && (
+        onTimestampClick ? (
+          <button
+            onClick={() => onTimestampClick(citation.start!)}
+            className="mr-1 font-mono text-blue-300 hover:text-blue-200"
+            aria-label={`Play from ${formatTimestamp(citation.start)}`}
+          >
+            [{formatTimestamp(citation.start)}]
+          </button>
+        ) : (
+          <span className="mr-1 font-mono text-gray-400">[{formatTimestamp(citation.start)}]</span>
+        )
+      )}
+      {isWebUrl(citation.url)
+        ? <a href={citation.url} target="_blank" rel="noopener noreferrer" className="text-blue-300 underline hover:text-blue-200">{label}</a>
+        : label}
+    </span>
+  );
+};
+
+interface ChatBubbleProps {
+  message: Message;
+  isLoading?: boolean;
+  highlight?: string;
+  branch?: { index: number; count: number }; // Position among alternative versions of this message
+  onSelectBranch?: (direction: -1 | 1) => void;
+  onRegenerate?: () => void;
+  onEdit?: (text: string) => void;
+  actionsDisabled?: boolean;
+  onTimestampClick?: (time: number) => void; // Makes `[mm:ss]` citations in the text seek a video
+  isSpeaking?: boolean; // Whether this message is being read aloud
+  onToggleSpeech?: () => void; // Starts or stops reading this message aloud
+  onFeedback?: (feedback: MessageFeedback) => Promise<void>; // Rates a model reply
+  onRetrySend?: () => void; // Tries to send a pending message now
+  onDiscard?: () => void; // Drops a pending message instead of sending it
+  onTogglePin?: () => void; // Pins the message so it is always sent as context
+}
 
-export const ChatBubble: React.FC<{ message: Message; isLoading?: boolean; highlight?: string }> = ({ message, isLoading, highlight }) => {
+export const ChatBubble: React.FC<ChatBubbleProps> = ({
+  message,
+  isLoading,
+  highlight,
+  branch,
+  onSelectBranch,
+  onRegenerate,
+  onEdit,
+  actionsDisabled,
+  onTimestampClick,
+  isSpeaking,
+  onToggleSpeech,
+  onFeedback,
+  onRetrySend,
+  onDiscard,
+  onTogglePin,
+}) => {
   const isUser = message.sender === 'user';
+  const [isEditing, setIsEditing] = useState(false);
+  const [draft, setDraft] = useState(message.text);
+
+  const startEditing = () => {
+    setDraft(message.text);
+    setIsEditing(true);
+  };
+
+  const submitEdit = () => {
+    if (!draft.trim() || !onEdit) return;
+    setIsEditing(false);
+    onEdit(draft);
+  };
+
+  // The rating is sent as soon as a thumb is clicked; the comment box then offers to add a reason.
+  const [commentRating, setCommentRating] = useState<MessageFeedback['rating'] | null>(null);
+  const [comment, setComment] = useState('');
+  const [isSubmittingFeedback, setIsSubmittingFeedback] = useState(false);
+
+  const submitFeedback = async (feedback: MessageFeedback) => {
+    if (!onFeedback) return;
+    setIsSubmittingFeedback(true);
+    try {
+      await onFeedback(feedback);
+    } finally {
+      setIsSubmittingFeedback(false);
+    }
+  };
+
+  const handleRate = async (rating: MessageFeedback['rating']) => {
+    setComment(message.feedback?.rating === rating ? message.feedback.comment ?? '' : '');
+    setCommentRating(rating);
+    await submitFeedback({ rating });
+  };
+
+  const handleSubmitComment = async () => {
+    if (!commentRating) return;
+    await submitFeedback({ rating: commentRating, ...(comment.trim() && { comment: comment.trim() }) });
+    setCommentRating(null);
+  };
+
+  const hasBranches = !!branch && branch.count > 1;
+  const metadata = getMessageMetadata(message);
+  const hasMetadata = !!message.createdAt || metadata.length > 0;
+  const canSpeak = !!onToggleSpeech && !isUser && !message.isError && !!message.text;
+  const canRate = !!onFeedback && !isUser && !message.isError && !!message.text;
+  const canPin = !!onTogglePin && !message.isError;
+  // A reply read while it streams keeps its stop button visible.
+  const showActions = !message.pending && (!isLoading || isSpeaking) && !isEditing && (hasBranches || onRegenerate || onEdit || hasMetadata || canSpeak || canRate || canPin);
+
+  const pinButton = canPin && (
+    <button
+      onClick={onTogglePin}
+      className={`p-1 rounded hover:text-white ${message.pinned ? 'text-primary' : ''}`}
+      aria-label={message.pinned ? 'Unpin message' : 'Pin message so it is always sent as context'}
+      aria-pressed={!!message.pinned}
+    >
+      <PinIcon className="w-4 h-4" />
+    </button>
+  );
+
   return (
     <div className={`flex items-start gap-3 ${isUser ? 'justify-end' : ''}`}>
       {!isUser && (
         <div className="w-8 h-8 rounded-full bg-gradient-to-br from-blue-500 to-indigo-600 flex-shrink-0"></div>
       )}
-      <div
-        className={`max-w-xl p-4 rounded-2xl whitespace-pre-wrap ${
-          isUser
-            ? 'bg-blue-600 text-white rounded-br-none'
-            : 'bg-gray-700 text-gray-200 rounded-bl-none'
-        }`}
-      >
-        {/* If this bubble is for the model, it's currently loading, and has no text yet, show the typing indicator. */}
-        {isLoading && message.sender === 'model' && !message.text ? (
-            <TypingIndicator />
-        ) : (
-            <div className="text-sm">{renderFormattedText(message.text, highlight)}</div>
-        )}
+      <div className={`group flex flex-col max-w-xl ${isUser ? 'items-end' : 'items-start'}`}>
+        <div
+          className={`p-4 rounded-2xl min-w-0 max-w-full ${
+            isUser
+              ? 'bg-blue-600 text-white rounded-br-none'
+              : 'bg-gray-700 text-gray-200 rounded-bl-none'
+          } ${isEditing ? 'w-full' : ''} ${message.pending ? 'opacity-70' : ''}`}
+        >
+          {!isUser && message.model && (
+              <p className="mb-1 text-xs font-semibold font-mono text-blue-300">{AI_MODEL_LABELS[message.model]}</p>
+          )}
+          {/* If this bubble is for the model, it's currently loading, and has no text yet, show the typing indicator. */}
+          {isLoading && message.sender === 'model' && !message.text ? (
+              <TypingIndicator />
+          ) : isEditing ? (
+              <div className="space-y-2">
+                  <textarea
+                      value={draft}
+                      onChange={(e) => setDraft(e.target.value)}
+                      rows={3}
+                      className="w-full min-w-[16rem] bg-blue-700/60 rounded-md p-2 text-sm text-white focus:outline-none focus:ring-2 focus:ring-white/50 resize-y"
+                      aria-label="Edit message"
+                      autoFocus
+                  />
+                  <div className="flex justify-end gap-2">
+                      <button onClick={() => setIsEditing(false)} className="px-3 py-1 text-xs rounded-md bg-blue-800 hover:bg-blue-900">
+                          Cancel
+                      </button>
+                      <button onClick={submitEdit} disabled={!draft.trim()} className="px-3 py-1 text-xs rounded-md bg-white text-blue-700 font-semibold hover:bg-gray-100 disabled:opacity-50">
+                          Save & Send
+                      </button>
+                  </div>
+              </div>
+          ) : (
+              <div className="text-sm"><MarkdownContent content={message.text} highlight={highlight} onTimestampClick={onTimestampClick} /></div>
+          )}
         
-        {message.file && (
-             <div className="mt-3 p-2 bg-gray-600/50 rounded-lg flex items-center gap-2">
-                <FileTextIcon className="w-5 h-5 text-gray-400"/>
-                <span className="text-xs text-gray-300 font-mono truncate">{message.file.name}</span>
-             </div>
+          {message.citations && message.citations.length > 0 && (
+              <div className="mt-3 pt-2 border-t border-gray-600 text-xs">
+                  <p className="mb-1 font-semibold text-gray-400">Sources</p>
+                  <ol className="list-decimal pl-5 space-y-1 text-gray-300">
+                      {message.citations.map((citation, index) => (
+                          <li key={index}><CitationLabel citation={citation} onTimestampClick={onTimestampClick} /></li>
+                      ))}
+                  </ol>
+              </div>
+          )}
+
+          {message.interrupted && (
+              <p className={`mt-2 text-xs italic ${message.interruptionReason ? 'text-error' : 'text-gray-400'}`}>
+                  Response interrupted{message.interruptionReason && `: ${message.interruptionReason}`}
+              </p>
+          )}
+
+          {message.files && message.files.length > 0 && (
+               <div className="mt-3 space-y-2">
+                  {message.files.map((file, index) => (
+                      <AttachmentPreview key={file.id || `${file.name}-${index}`} file={file} />
+                  ))}
+               </div>
+          )}
+        </div>
+        {message.pending && (
+          <div className="mt-1 flex items-center gap-2 text-xs text-gray-400">
+            <ClockIcon className="w-3.5 h-3.5" />
+            <span>Pending · will be sent when you're back online</span>
+            {onRetrySend && (
+              <button onClick={onRetrySend} disabled={actionsDisabled} className="p-1 rounded hover:text-white disabled:opacity-40" aria-label="Try sending now">
+                <RefreshCwIcon className="w-3.5 h-3.5" />
+              </button>
+            )}
+            {onDiscard && (
+              <button onClick={onDiscard} disabled={actionsDisabled} className="p-1 rounded hover:text-error disabled:opacity-40" aria-label="Discard message">
+                <TrashIcon className="w-3.5 h-3.5" />
+              </button>
+            )}
+          </div>
+        )}
+        {showActions && (
+          <div className="mt-1 flex items-center gap-1 text-xs text-gray-400">
+            {hasBranches && onSelectBranch && (
+              <div className="flex items-center">
+                <button
+                  onClick={() => onSelectBranch(-1)}
+                  disabled={actionsDisabled || branch.index === 0}
+                  className="p-1 rounded hover:text-white disabled:opacity-40"
+                  aria-label="Previous version"
+                >
+                  <ChevronLeftIcon className="w-4 h-4" />
+                </button>
+                <span className="font-mono">{branch.index + 1}/{branch.count}</span>
+                <button
+                  onClick={() => onSelectBranch(1)}
+                  disabled={actionsDisabled || branch.index === branch.count - 1}
+                  className="p-1 rounded hover:text-white disabled:opacity-40"
+                  aria-label="Next version"
+                >
+                  <ChevronRightIcon className="w-4 h-4" />
+                </button>
+              </div>
+            )}
+            {message.pinned && pinButton}
+            <div className={`flex items-center group-hover:opacity-100 focus-within:opacity-100 transition-opacity ${isSpeaking || commentRating ? 'opacity-100' : 'opacity-0'}`}>
+              {canRate && (
+                <>
+                  <button
+                    onClick={() => handleRate('up')}
+                    disabled={isSubmittingFeedback}
+                    className={`p-1 rounded hover:text-white disabled:opacity-40 ${message.feedback?.rating === 'up' ? 'text-success' : ''}`}
+                    aria-label="Good response"
+                    aria-pressed={message.feedback?.rating === 'up'}
+                  >
+                    <ThumbsUpIcon className="w-4 h-4" />
+                  </button>
+                  <button
+                    onClick={() => handleRate('down')}
+                    disabled={isSubmittingFeedback}
+                    className={`p-1 rounded hover:text-white disabled:opacity-40 ${message.feedback?.rating === 'down' ? 'text-error' : ''}`}
+                    aria-label="Bad response"
+                    aria-pressed={message.feedback?.rating === 'down'}
+                  >
+                    <ThumbsDownIcon className="w-4 h-4" />
+                  </button>
+                </>
+              )}
+              {!message.pinned && pinButton}
+              {canSpeak && (
+                <button
+                  onClick={onToggleSpeech}
+                  className={`p-1 rounded hover:text-white ${isSpeaking ? 'text-primary' : ''}`}
+                  aria-label={isSpeaking ? 'Stop reading aloud' : 'Read aloud'}
+                >
+                  {isSpeaking ? <StopIcon className="w-4 h-4" /> : <Volume2Icon className="w-4 h-4" />}
+                </button>
+              )}
+              {onEdit && (
+                <button onClick={startEditing} disabled={actionsDisabled} className="p-1 rounded hover:text-white disabled:opacity-40" aria-label="Edit and resend">
+                  <EditIcon className="w-4 h-4" />
+                </button>
+              )}
+              {onRegenerate && (
+                <button onClick={onRegenerate} disabled={actionsDisabled} className="p-1 rounded hover:text-white disabled:opacity-40" aria-label="Regenerate response">
+                  <RefreshCwIcon className="w-4 h-4" />
+                </button>
+              )}
+              {hasMetadata && (
+                <span
+                  className={`px-1 font-mono text-gray-500 ${isUser ? 'order-first' : ''}`}
+                  title={message.createdAt ? new Date(message.createdAt).toLocaleString() : undefined}
+                >
+                  {[
+                    message.createdAt && new Date(message.createdAt).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' }),
+                    ...metadata.map(item => `${item.label}: ${item.value}`),
+                  ].filter(Boolean).join(' · ')}
+                </span>
+              )}
+            </div>
+          </div>
+        )}
+        {commentRating && (
+          <div className="mt-2 w-full max-w-md space-y-2">
+            <textarea
+              value={comment}
+              onChange={(e) => setComment(e.target.value)}
+              rows={2}
+              placeholder={commentRating === 'up' ? 'What was good about this response? (optional)' : 'What was wrong with this response? (optional)'}
+              className="w-full bg-gray-700 border border-gray-600 rounded-md p-2 text-sm text-gray-200 placeholder-gray-400 focus:outline-none focus:ring-2 focus:ring-primary resize-y"
+              aria-label="Feedback comment"
+              autoFocus
+            />
+            <div className="flex justify-end gap-2">
+              <button onClick={() => setCommentRating(null)} className="px-3 py-1 text-xs rounded-md bg-gray-600 hover:bg-gray-500">
+                Skip
+              </button>
+              <button
+                onClick={handleSubmitComment}
+                disabled={isSubmittingFeedback || !comment.trim()}
+                className="px-3 py-1 text-xs rounded-md bg-primary text-white font-semibold hover:bg-primary-hover disabled:opacity-50"
+              >
+                Send Feedback
+              </button>
+            </div>
+          </div>
         )}
       </div>
     </div>
   );
-};
\ No newline at end of file
+};
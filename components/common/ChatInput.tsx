@@ -1,45 +1,227 @@
-import React, { useState, useRef, useEffect } from 'react';
+import React, { useState, useRef, useEffect, useCallback, useMemo } from 'react';
 import { SendIcon } from '../icons/SendIcon';
 import { UploadIcon } from '../icons/UploadIcon';
 import { LoaderIcon } from '../icons/LoaderIcon';
 import { XIcon } from '../icons/XIcon';
+import { StopIcon } from '../icons/StopIcon';
+import { ImageIcon } from '../icons/ImageIcon';
+import { FileTextIcon } from '../icons/FileTextIcon';
+import { BookOpenIcon } from '../icons/BookOpenIcon';
+import { MicIcon } from '../icons/MicIcon';
+import { PromptLibrary } from '../PromptLibrary';
+import { formatBytes } from '../../utils/exportUtils';
+import { validateAttachment, MAX_ATTACHMENTS } from '../../utils/validation';
+import { formatTimestamp } from '../../utils/timestamps';
+import { getCommandSuggestions, matchCommand, CommandError, type BoundCommand, type CommandSuggestion } from '../../utils/slashCommands';
+import { useAudioRecorder, isAudioRecordingSupported } from '../../hooks/useAudioRecorder';
+import { transcribeAudio } from '../../services/aiService';
+import { AIError } from '../../types';
 
 interface ChatInputProps {
-    onSendMessage: (message: string, file?: File) => void;
+    onSendMessage: (message: string, files: File[]) => void;
+    onStop?: () => void; // When provided, a Stop button replaces the spinner while a reply is streaming
     isLoading: boolean;
+    dropZoneRef?: React.RefObject<HTMLElement>; // Element that accepts dropped files; defaults to the input itself
+    allowAttachments?: boolean;
+    placeholder?: string;
+    commands?: BoundCommand[]; // Run when typed as `/name`, with an autocomplete menu
 }
 
-export const ChatInput: React.FC<ChatInputProps> = ({ onSendMessage, isLoading }) => {
+// Long recordings make transcription slow; a chat message rarely needs more.
+const MAX_RECORDING_MS = 2 * 60 * 1000;
+
+// Clipboard images are all named "image.png", so give pasted files a distinguishable name.
+const renamePastedFile = (file: File, index: number) => {
+    const extension = file.type.split('/')[1] || 'bin';
+    return new File([file], `pasted-${Date.now()}-${index + 1}.${extension}`, { type: file.type });
+};
+
+export const ChatInput: React.FC<ChatInputProps> = ({
+    onSendMessage,
+    onStop,
+    isLoading,
+    dropZoneRef,
+    allowAttachments = true,
+    placeholder = 'Type your message, or drop or paste files...',
+    commands,
+}) => {
     const [text, setText] = useState('');
-    const [file, setFile] = useState<File | null>(null);
+    const [files, setFiles] = useState<File[]>([]);
+    const [attachmentError, setAttachmentError] = useState<string | null>(null);
+    const [isDragging, setIsDragging] = useState(false);
+    const [isPromptLibraryOpen, setIsPromptLibraryOpen] = useState(false);
     const fileInputRef = useRef<HTMLInputElement>(null);
     const textareaRef = useRef<HTMLTextAreaElement>(null);
+    const containerRef = useRef<HTMLDivElement>(null);
+    const [isTranscribing, setIsTranscribing] = useState(false);
+    const [transcriptionError, setTranscriptionError] = useState<string | null>(null);
+    const transcriptionAbortRef = useRef<AbortController | null>(null);
+    const [selectedSuggestionIndex, setSelectedSuggestionIndex] = useState(0);
+    const [isCommandMenuDismissed, setIsCommandMenuDismissed] = useState(false);
+    const [commandError, setCommandError] = useState<string | null>(null);
+
+    const suggestions = useMemo(() => (commands ? getCommandSuggestions(commands, text) : []), [commands, text]);
+    const isCommandMenuOpen = suggestions.length > 0 && !isCommandMenuDismissed;
+
+    // The transcript is added to the text box rather than sent, so it can be checked first.
+    const handleRecorded = async (audio: File) => {
+        setIsTranscribing(true);
+        transcriptionAbortRef.current = new AbortController();
+        try {
+            const transcript = await transcribeAudio(audio, transcriptionAbortRef.current.signal);
+            if (!transcript) {
+                setTranscriptionError('No speech was recognized. Try again closer to the microphone.');
+                return;
+            }
+            setText(prev => (prev.trim() ? `${prev.trimEnd()} ${transcript}` : transcript));
+            textareaRef.current?.focus();
+        } catch (err) {
+            if (err instanceof DOMException && err.name === 'AbortError') return;
+            setTranscriptionError(err instanceof AIError ? err.message : 'Failed to transcribe the recording.');
+        } finally {
+            setIsTranscribing(false);
+            transcriptionAbortRef.current = null;
+        }
+    };
+
+    const recorder = useAudioRecorder({ maxDurationMs: MAX_RECORDING_MS, onRecorded: handleRecorded });
+    const isRecording = recorder.status === 'recording';
+    const voiceError = recorder.error || transcriptionError;
+
+    useEffect(() => () => transcriptionAbortRef.current?.abort(), []);
+
+    const handleStartRecording = () => {
+        setTranscriptionError(null);
+        recorder.start();
+    };
+
+    const isSendDisabled = isLoading || isRecording || isTranscribing || (!text.trim() && files.length === 0);
+
+    const addFiles = useCallback((newFiles: File[]) => {
+        if (newFiles.length === 0) return;
+        const accepted = [...files];
+        const errors = new Set<string>();
+        newFiles.forEach(file => {
+            const error = validateAttachment(file);
+            if (error) {
+                errors.add(error);
+            } else if (accepted.length >= MAX_ATTACHMENTS) {
+                errors.add(`You can attach up to ${MAX_ATTACHMENTS} files per message.`);
+            } else if (!accepted.some(f => f.name === file.name && f.size === file.size)) {
+                accepted.push(file);
+            }
+        });
+        setFiles(accepted);
+        setAttachmentError(errors.size > 0 ? Array.from(errors).join(' ') : null);
+    }, [files]);
 
-    const isSendDisabled = isLoading || (!text.trim() && !file);
+    const removeFile = (index: number) => {
+        setFiles(prev => prev.filter((_, i) => i !== index));
+        setAttachmentError(null);
+    };
+
+    const handleTextChange = (value: string) => {
+        setText(value);
+        setSelectedSuggestionIndex(0);
+        setIsCommandMenuDismissed(false);
+        setCommandError(null);
+    };
+
+    /**
+     * Runs `input` if it invokes one of the commands. The text is restored if the
+     * command fails, so it can be corrected.
+     * @returns Whether it was a command.
+     */
+    const runCommand = async (input: string) => {
+        const match = commands && matchCommand(commands, input);
+        if (!match) return false;
+        setText('');
+        setCommandError(null);
+        try {
+            await match.command.run(match.argument, { attachFiles: addFiles });
+        } catch (err) {
+            setText(input);
+            setCommandError(err instanceof CommandError ? err.message : `The /${match.command.name} command failed.`);
+        }
+        textareaRef.current?.focus();
+        return true;
+    };
+
+    const applySuggestion = (suggestion: CommandSuggestion) => {
+        if (suggestion.isComplete) {
+            runCommand(suggestion.completion);
+        } else {
+            handleTextChange(suggestion.completion);
+            textareaRef.current?.focus();
+        }
+    };
 
-    const handleSend = () => {
+    const handleSend = async () => {
         if (isSendDisabled) return;
-        onSendMessage(text, file || undefined);
+        if (await runCommand(text)) return;
+        onSendMessage(text, files);
         setText('');
-        setFile(null);
+        setFiles([]);
+        setAttachmentError(null);
         if (fileInputRef.current) {
             fileInputRef.current.value = '';
         }
     };
 
     const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
-        if (e.target.files && e.target.files[0]) {
-            setFile(e.target.files[0]);
+        if (e.target.files) {
+            addFiles(Array.from(e.target.files));
         }
+        e.target.value = ''; // Allow picking the same file again after removing it
+    };
+
+    const handlePaste = (e: React.ClipboardEvent<HTMLTextAreaElement>) => {
+        const pastedFiles = Array.from(e.clipboardData.items)
+            .filter(item => item.kind === 'file')
+            .map(item => item.getAsFile())
+            .filter((file): file is File => !!file);
+        if (!allowAttachments || pastedFiles.length === 0) return; // Plain text paste
+        e.preventDefault();
+        addFiles(pastedFiles.map((file, index) => file.type.startsWith('image/') ? renamePastedFile(file, index) : file));
+    };
+
+    const handleInsertTemplate = (templateText: string) => {
+        setText(prev => (prev.trim() ? `${prev}\n\n${templateText}` : templateText));
+        setIsPromptLibraryOpen(false);
+        textareaRef.current?.focus();
     };
 
     const handleKeyDown = (e: React.KeyboardEvent<HTMLTextAreaElement>) => {
+        if (isCommandMenuOpen) {
+            const selected = suggestions[Math.min(selectedSuggestionIndex, suggestions.length - 1)];
+            if (e.key === 'ArrowDown' || e.key === 'ArrowUp') {
+                e.preventDefault();
+                const step = e.key === 'ArrowDown' ? 1 : -1;
+                setSelectedSuggestionIndex(index => (index + step + suggestions.length) % suggestions.length);
+                return;
+            }
+            if (e.key === 'Escape') {
+                e.preventDefault();
+                setIsCommandMenuDismissed(true);
+                return;
+            }
+            if (e.key === 'Tab') {
+                e.preventDefault();
+                handleTextChange(selected.completion);
+                return;
+            }
+            if (e.key === 'Enter' && !e.shiftKey) {
+                e.preventDefault();
+                applySuggestion(selected);
+                return;
+            }
+        }
         if (e.key === 'Enter' && !e.shiftKey) {
             e.preventDefault();
             handleSend();
         }
     };
-    
+
     useEffect(() => {
         if (textareaRef.current) {
             textareaRef.current.style.height = 'auto';
@@ -47,59 +229,212 @@ export const ChatInput: React.FC<ChatInputProps> = ({ onSendMessage, isLoading }
         }
     }, [text]);
 
+    useEffect(() => {
+        const zone = dropZoneRef?.current || containerRef.current;
+        if (!zone || !allowAttachments) return;
+        // dragenter/dragleave fire for every child element, so count them to know when we really leave.
+        let dragDepth = 0;
+        const hasFiles = (e: DragEvent) => !!e.dataTransfer && Array.from(e.dataTransfer.types).includes('Files');
+
+        const handleDragEnter = (e: DragEvent) => {
+            if (!hasFiles(e)) return;
+            e.preventDefault();
+            dragDepth++;
+            setIsDragging(true);
+        };
+        const handleDragOver = (e: DragEvent) => {
+            if (hasFiles(e)) e.preventDefault();
+        };
+        const handleDragLeave = (e: DragEvent) => {
+            if (!hasFiles(e)) return;
+            dragDepth = Math.max(0, dragDepth - 1);
+            if (dragDepth === 0) setIsDragging(false);
+        };
+        const handleDrop = (e: DragEvent) => {
+            if (!hasFiles(e)) return;
+            e.preventDefault();
+            dragDepth = 0;
+            setIsDragging(false);
+            if (!isLoading) {
+                addFiles(Array.from(e.dataTransfer?.files || []));
+            }
+        };
+
+        zone.addEventListener('dragenter', handleDragEnter);
+        zone.addEventListener('dragover', handleDragOver);
+        zone.addEventListener('dragleave', handleDragLeave);
+        zone.addEventListener('drop', handleDrop);
+        return () => {
+            zone.removeEventListener('dragenter', handleDragEnter);
+            zone.removeEventListener('dragover', handleDragOver);
+            zone.removeEventListener('dragleave', handleDragLeave);
+            zone.removeEventListener('drop', handleDrop);
+        };
+    }, [dropZoneRef, addFiles, isLoading, allowAttachments]);
+
     return (
-        <div className="p-4 bg-gray-800 border-t border-gray-700">
-            <div className="relative bg-gray-700 rounded-lg">
-                {file && (
-                    <div className="px-4 py-2 flex items-center justify-between text-sm text-gray-300 bg-gray-600/50 rounded-t-lg">
-                        <span>Attached: {file.name}</span>
-                        <button onClick={() => setFile(null)} className="p-1 rounded-full hover:bg-gray-500">
-                           <XIcon className="w-4 h-4" />
+        <div ref={containerRef} className="p-4 bg-gray-800 border-t border-gray-700">
+            <div className={`bg-gray-700 rounded-lg border-2 transition-colors ${isDragging ? 'border-dashed border-primary' : 'border-transparent'}`}>
+                {isDragging && (
+                    <div className="px-4 py-2 text-sm text-center text-primary">Drop files to attach them</div>
+                )}
+                {files.length > 0 && (
+                    <div className="px-3 pt-3 flex flex-wrap gap-2">
+                        {files.map((file, index) => (
+                            <div key={`${file.name}-${file.size}`} className="flex items-center gap-2 max-w-xs pl-2 pr-1 py-1 text-xs text-gray-300 bg-gray-600/60 rounded-full">
+                                {file.type.startsWith('image/')
+                                    ? <ImageIcon className="w-4 h-4 flex-shrink-0 text-gray-400" />
+                                    : <FileTextIcon className="w-4 h-4 flex-shrink-0 text-gray-400" />}
+                                <span className="truncate font-mono">{file.name}</span>
+                                <span className="flex-shrink-0 text-gray-400">{formatBytes(file.size, 1)}</span>
+                                <button
+                                    onClick={() => removeFile(index)}
+                                    className="p-0.5 rounded-full hover:bg-gray-500"
+                                    aria-label={`Remove ${file.name}`}
+                                >
+                                    <XIcon className="w-3.5 h-3.5" />
+                                </button>
+                            </div>
+                        ))}
+                    </div>
+                )}
+                {attachmentError && (
+                    <p className="px-4 pt-2 text-xs text-error" role="alert">{attachmentError}</p>
+                )}
+                {isRecording && (
+                    <div className="flex items-center gap-3 px-4 pt-3 text-sm text-gray-300">
+                        <span className="w-2.5 h-2.5 rounded-full bg-error animate-pulse flex-shrink-0" aria-hidden="true" />
+                        <span className="font-mono flex-shrink-0">
+                            {formatTimestamp(recorder.elapsedMs / 1000)} / {formatTimestamp(MAX_RECORDING_MS / 1000)}
+                        </span>
+                        <div className="flex-1 h-1.5 bg-gray-600 rounded-full overflow-hidden" role="meter" aria-label="Microphone level" aria-valuemin={0} aria-valuemax={1} aria-valuenow={recorder.level}>
+                            <div className="h-full bg-success transition-[width] duration-75" style={{ width: `${Math.round(recorder.level * 100)}%` }} />
+                        </div>
+                        <button onClick={recorder.stop} className="flex items-center gap-1 px-2 py-0.5 text-xs rounded-md bg-gray-600 hover:bg-gray-500">
+                            <StopIcon className="w-3.5 h-3.5" /> Done
+                        </button>
+                        <button onClick={recorder.cancel} className="p-0.5 rounded-full hover:bg-gray-500" aria-label="Discard recording">
+                            <XIcon className="w-4 h-4" />
                         </button>
                     </div>
                 )}
-                <textarea
-                    ref={textareaRef}
-                    value={text}
-                    onChange={(e) => setText(e.target.value)}
-                    onKeyDown={handleKeyDown}
-                    placeholder="Type your message or attach a file..."
-                    className="w-full bg-transparent pl-12 pr-20 py-3 text-gray-200 placeholder-gray-400 focus:outline-none resize-none"
-                    rows={1}
-                    style={{maxHeight: '200px'}}
-                    disabled={isLoading}
-                />
-                <div className="absolute left-4 top-1/2 -translate-y-1/2">
-                    <input
-                        type="file"
-                        ref={fileInputRef}
-                        onChange={handleFileChange}
-                        className="hidden"
-                        id="file-upload"
+                {isTranscribing && (
+                    <div className="flex items-center gap-2 px-4 pt-3 text-sm text-gray-400">
+                        <LoaderIcon className="w-4 h-4 animate-spin" /> Transcribing...
+                    </div>
+                )}
+                {voiceError && (
+                    <p className="px-4 pt-2 text-xs text-error" role="alert">{voiceError}</p>
+                )}
+                {commandError && (
+                    <p className="px-4 pt-2 text-xs text-error" role="alert">{commandError}</p>
+                )}
+                <div className="relative">
+                    {isCommandMenuOpen && (
+                        <ul
+                            role="listbox"
+                            aria-label="Commands"
+                            className="absolute bottom-full left-0 right-0 mb-2 max-h-64 overflow-y-auto bg-card border border-border rounded-lg shadow-lg py-1 z-20"
+                        >
+                            {suggestions.map((suggestion, index) => (
+                                <li
+                                    key={suggestion.key}
+                                    role="option"
+                                    aria-selected={index === selectedSuggestionIndex}
+                                    // Keep the focus in the text box.
+                                    onMouseDown={(e) => e.preventDefault()}
+                                    onClick={() => applySuggestion(suggestion)}
+                                    onMouseEnter={() => setSelectedSuggestionIndex(index)}
+                                    className={`flex items-baseline gap-3 px-4 py-2 text-sm cursor-pointer ${index === selectedSuggestionIndex ? 'bg-background text-white' : 'text-text-secondary'}`}
+                                >
+                                    <span className="font-mono flex-shrink-0">{suggestion.label}</span>
+                                    <span className="truncate text-xs text-text-secondary">{suggestion.description}</span>
+                                </li>
+                            ))}
+                        </ul>
+                    )}
+                    <textarea
+                        ref={textareaRef}
+                        value={text}
+                        onChange={(e) => handleTextChange(e.target.value)}
+                        onKeyDown={handleKeyDown}
+                        onPaste={handlePaste}
+                        placeholder={placeholder}
+                        className={`w-full bg-transparent ${allowAttachments ? 'pl-28' : 'pl-20'} pr-20 py-3 text-gray-200 placeholder-gray-400 focus:outline-none resize-none`}
+                        rows={1}
+                        style={{maxHeight: '200px'}}
+                        disabled={isLoading}
                     />
-                    <label htmlFor="file-upload">
+                    <div className="absolute left-4 top-1/2 -translate-y-1/2 flex items-center gap-3">
+                        {allowAttachments && (
+                            <>
+                                <input
+                                    type="file"
+                                    ref={fileInputRef}
+                                    onChange={handleFileChange}
+                                    className="hidden"
+                                    id="file-upload"
+                                    multiple
+                                />
+                                <label htmlFor="file-upload">
+                                    <button
+                                        type="button"
+                                        onClick={() => fileInputRef.current?.click()}
+                                        className="text-gray-400 hover:text-white disabled:opacity-50"
+                                        disabled={isLoading || files.length >= MAX_ATTACHMENTS}
+                                        aria-label="Attach files"
+                                    >
+                                        <UploadIcon className="w-5 h-5" />
+                                    </button>
+                                </label>
+                            </>
+                        )}
                         <button
                             type="button"
-                            onClick={() => fileInputRef.current?.click()}
+                            onClick={() => setIsPromptLibraryOpen(true)}
                             className="text-gray-400 hover:text-white disabled:opacity-50"
                             disabled={isLoading}
-                            aria-label="Attach file"
+                            aria-label="Insert a prompt template"
                         >
-                            <UploadIcon className="w-5 h-5" />
+                            <BookOpenIcon className="w-5 h-5" />
                         </button>
-                    </label>
-                </div>
-                <div className="absolute right-4 top-1/2 -translate-y-1/2">
-                    <button
-                        onClick={handleSend}
-                        disabled={isSendDisabled}
-                        className="p-2 rounded-full bg-blue-600 text-white hover:bg-blue-700 disabled:bg-blue-800 disabled:cursor-not-allowed"
-                        aria-label="Send message"
-                    >
-                        {isLoading ? <LoaderIcon className="w-5 h-5 animate-spin"/> : <SendIcon className="w-5 h-5" />}
-                    </button>
+                        {isAudioRecordingSupported() && (
+                            <button
+                                type="button"
+                                onClick={handleStartRecording}
+                                className="text-gray-400 hover:text-white disabled:opacity-50"
+                                disabled={isLoading || recorder.status !== 'idle' || isTranscribing}
+                                aria-label="Record a voice message"
+                            >
+                                <MicIcon className="w-5 h-5" />
+                            </button>
+                        )}
+                    </div>
+                    <div className="absolute right-4 top-1/2 -translate-y-1/2">
+                        {isLoading && onStop ? (
+                            <button
+                                onClick={onStop}
+                                className="p-2 rounded-full bg-error text-white hover:bg-red-600"
+                                aria-label="Stop generating"
+                            >
+                                <StopIcon className="w-5 h-5" />
+                            </button>
+                        ) : (
+                            <button
+                                onClick={handleSend}
+                                disabled={isSendDisabled}
+                                className="p-2 rounded-full bg-blue-600 text-white hover:bg-blue-700 disabled:bg-blue-800 disabled:cursor-not-allowed"
+                                aria-label="Send message"
+                            >
+                                {isLoading ? <LoaderIcon className="w-5 h-5 animate-spin"/> : <SendIcon className="w-5 h-5" />}
+                            </button>
+                        )}
+                    </div>
                 </div>
             </div>
+            {isPromptLibraryOpen && (
+                <PromptLibrary onInsert={handleInsertTemplate} onClose={() => setIsPromptLibraryOpen(false)} />
+            )}
         </div>
     );
-};
\ No newline at end of file
+};
@@ -0,0 +1,109 @@
+import React, { useState, useEffect } from 'react';
+import { PrismLight as SyntaxHighlighter } from 'react-syntax-highlighter';
+import { oneDark } from 'react-syntax-highlighter/dist/esm/styles/prism';
+import bash from 'react-syntax-highlighter/dist/esm/languages/prism/bash';
+import css from 'react-syntax-highlighter/dist/esm/languages/prism/css';
+import diff from 'react-syntax-highlighter/dist/esm/languages/prism/diff';
+import javascript from 'react-syntax-highlighter/dist/esm/languages/prism/javascript';
+import json from 'react-syntax-highlighter/dist/esm/languages/prism/json';
+import jsx from 'react-syntax-highlighter/dist/esm/languages/prism/jsx';
+import markdown from 'react-syntax-highlighter/dist/esm/languages/prism/markdown';
+import markup from 'react-syntax-highlighter/dist/esm/languages/prism/markup';
+import python from 'react-syntax-highlighter/dist/esm/languages/prism/python';
+import regex from 'react-syntax-highlighter/dist/esm/languages/prism/regex';
+import sql from 'react-syntax-highlighter/dist/esm/languages/prism/sql';
+import tsx from 'react-syntax-highlighter/dist/esm/languages/prism/tsx';
+import typescript from 'react-syntax-highlighter/dist/esm/languages/prism/typescript';
+import yaml from 'react-syntax-highlighter/dist/esm/languages/prism/yaml';
+import { CopyIcon } from '../icons/CopyIcon';
+import { CheckCircleIcon } from '../icons/CheckCircleIcon';
+import { DownloadIcon } from '../icons/DownloadIcon';
+import { WrapTextIcon } from '../icons/WrapTextIcon';
+import { downloadFile } from '../../utils/exportUtils';
+
+// Only the languages our analysts commonly ask for are bundled, to keep the build small.
+const languages: Record<string, Parameters<typeof SyntaxHighlighter.registerLanguage>[1]> = { bash, css, diff, javascript, json, jsx, markdown, markup, python, regex, sql, tsx, typescript, yaml };
+Object.entries(languages).forEach(([name, definition]) => SyntaxHighlighter.registerLanguage(name, definition));
+
+const languageAliases: Record<string, string> = {
+    sh: 'bash', shell: 'bash', zsh: 'bash',
+    js: 'javascript', ts: 'typescript',
+    py: 'python',
+    html: 'markup', xml: 'markup',
+    yml: 'yaml', md: 'markdown',
+    regexp: 'regex',
+};
+
+const fileExtensions: Record<string, string> = {
+    bash: 'sh', css: 'css', diff: 'diff', javascript: 'js', json: 'json', jsx: 'jsx', markdown: 'md',
+    markup: 'html', python: 'py', regex: 'txt', sql: 'sql', tsx: 'tsx', typescript: 'ts', yaml: 'yml',
+};
+
+const COPY_FEEDBACK_MS = 2000;
+
+interface CodeBlockProps {
+    code: string;
+    language?: string; // As written after the opening fence, e.g. "sql" or "py"
+}
+
+export const CodeBlock: React.FC<CodeBlockProps> = ({ code, language }) => {
+    const [isCopied, setIsCopied] = useState(false);
+    const [wrapLines, setWrapLines] = useState(false);
+
+    const requestedLanguage = language?.toLowerCase() || '';
+    const resolvedLanguage = languageAliases[requestedLanguage] || requestedLanguage;
+    const isSupported = resolvedLanguage in languages;
+
+    useEffect(() => {
+        if (!isCopied) return;
+        const timer = setTimeout(() => setIsCopied(false), COPY_FEEDBACK_MS);
+        return () => clearTimeout(timer);
+    }, [isCopied]);
+
+    const handleCopy = async () => {
+        try {
+            await navigator.clipboard.writeText(code);
+            setIsCopied(true);
+        } catch (err) {
+            console.error('Failed to copy code: ', err);
+        }
+    };
+
+    const handleDownload = () => {
+        const extension = fileExtensions[resolvedLanguage] || 'txt';
+        downloadFile(code, `snippet.${extension}`, 'text/plain;charset=utf-8');
+    };
+
+    return (
+        <div className="rounded-lg overflow-hidden border border-gray-600 bg-black/40">
+            <div className="flex items-center justify-between px-3 py-1.5 bg-gray-800/80 text-xs text-gray-400">
+                <span className="font-mono">{requestedLanguage || 'text'}</span>
+                <div className="flex items-center gap-1">
+                    <button
+                        onClick={() => setWrapLines(prev => !prev)}
+                        className={`p-1 rounded hover:text-white ${wrapLines ? 'text-white' : ''}`}
+                        aria-label={wrapLines ? 'Disable line wrapping' : 'Enable line wrapping'}
+                        aria-pressed={wrapLines}
+                    >
+                        <WrapTextIcon className="w-4 h-4" />
+                    </button>
+                    <button onClick={handleCopy} className="p-1 rounded hover:text-white" aria-label="Copy code">
+                        {isCopied ? <CheckCircleIcon className="w-4 h-4 text-success" /> : <CopyIcon className="w-4 h-4" />}
+                    </button>
+                    <button onClick={handleDownload} className="p-1 rounded hover:text-white" aria-label="Download code as file">
+                        <DownloadIcon className="w-4 h-4" />
+                    </button>
+                </div>
+            </div>
+            <SyntaxHighlighter
+                language={isSupported ? resolvedLanguage : 'text'}
+                style={oneDark}
+                showLineNumbers
+                wrapLongLines={wrapLines}
+                customStyle={{ margin: 0, borderRadius: 0, fontSize: '0.75rem' }}
+            >
+                {code}
+            </SyntaxHighlighter>
+        </div>
+    );
+};
@@ -0,0 +1,133 @@
+import React, { useMemo } from 'react';
+import ReactMarkdown, { type Components } from 'react-markdown';
+import remarkGfm from 'remark-gfm';
+import rehypeSanitize from 'rehype-sanitize';
+import type { Root, Element, ElementContent } from 'hast';
+import { CodeBlock } from './CodeBlock';
+import { formatTimestamp, getTimestampFromHref, linkifyTimestampCitations } from '../../utils/timestamps';
+
+const escapeRegExp = (str: string) => str.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+/**
+ * A rehype plugin that wraps every occurrence of the search term in a `<mark>`.
+ * It runs after sanitizing, so the marks it adds are the only markup not from the schema.
+ * Code blocks are left alone since they are rendered as plain text by `CodeBlock`.
+ */
+const rehypeHighlightTerm = (term?: string) => (tree: Root) => {
+  const query = term?.trim();
+  if (!query) return;
+  const regex = new RegExp(`(${escapeRegExp(query)})`, 'gi');
+
+  const highlightChildren = (node: Root | Element) => {
+    node.children = node.children.flatMap((child): ElementContent[] => {
+      if (child.type === 'element') {
+        if (child.tagName !== 'pre') highlightChildren(child);
+        return [child];
+      }
+      if (child.type !== 'text') {
+        return [child as ElementContent];
+      }
+      return child.value.split(regex).filter(Boolean).map((part): ElementContent =>
+        part.toLowerCase() === query.toLowerCase()
+          ? {
+              type: 'element',
+              tagName: 'mark',
+              properties: { className: ['bg-yellow-500/70', 'text-white', 'rounded', 'px-0.5'] },
+              children: [{ type: 'text', value: part }],
+            }
+          : { type: 'text', value: part }
+      );
+    });
+  };
+  highlightChildren(tree);
+};
+
+const getText = (node: ElementContent): string =>
+  node.type === 'text' ? node.value : node.type === 'element' ? node.children.map(getText).join('') : '';
+
+// Fenced code blocks arrive as <pre><code class="language-xyz">.
+const renderCodeBlock = (node?: Element) => {
+  const codeNode = node?.children.find((child): child is Element => child.type === 'element' && child.tagName === 'code');
+  if (!codeNode) return null;
+  const classNames = Array.isArray(codeNode.properties.className) ? codeNode.properties.className : [];
+  const languageClass = classNames.map(String).find(name => name.startsWith('language-'));
+  return (
+    <CodeBlock
+      code={getText(codeNode).replace(/\n$/, '')}
+      language={languageClass?.slice('language-'.length)}
+    />
+  );
+};
+
+const MarkdownLink: React.FC<React.ComponentProps<'a'>> = (props) => (
+  <a className="text-blue-300 underline hover:text-blue-200" target="_blank" rel="noopener noreferrer" {...props} />
+);
+
+const markdownComponents: Components = {
+  p: ({ node, ...props }) => <p className="whitespace-pre-wrap" {...props} />,
+  h1: ({ node, ...props }) => <h1 className="text-xl font-bold" {...props} />,
+  h2: ({ node, ...props }) => <h2 className="text-lg font-bold" {...props} />,
+  h3: ({ node, ...props }) => <h3 className="text-base font-semibold" {...props} />,
+  h4: ({ node, ...props }) => <h4 className="font-semibold" {...props} />,
+  ul: ({ node, ...props }) => <ul className="list-disc pl-5 space-y-1" {...props} />,
+  ol: ({ node, ...props }) => <ol className="list-decimal pl-5 space-y-1" {...props} />,
+  a: ({ node, ...props }) => <MarkdownLink {...props} />,
+  blockquote: ({ node, ...props }) => <blockquote className="border-l-4 border-gray-500 pl-3 italic text-gray-300" {...props} />,
+  hr: ({ node, ...props }) => <hr className="border-gray-600" {...props} />,
+  table: ({ node, ...props }) => (
+    <div className="overflow-x-auto">
+      <table className="min-w-full border-collapse text-left" {...props} />
+    </div>
+  ),
+  th: ({ node, ...props }) => <th className="border border-gray-600 bg-gray-800/60 px-3 py-1.5 font-semibold" {...props} />,
+  td: ({ node, ...props }) => <td className="border border-gray-600 px-3 py-1.5 align-top" {...props} />,
+  pre: ({ node, ...props }) => renderCodeBlock(node) || <pre className="bg-black/40 rounded-lg p-3 overflow-x-auto font-mono text-xs" {...props} />,
+  code: ({ node, className, ...props }) => (
+    <code className={className || 'bg-black/30 rounded px-1 py-0.5 font-mono text-[0.85em]'} {...props} />
+  ),
+};
+
+interface MarkdownContentProps {
+  content: string;
+  highlight?: string;
+  onTimestampClick?: (time: number) => void; // When set, `[mm:ss]` citations render as seek buttons
+}
+
+/**
+ * Renders GitHub-flavoured Markdown. Raw HTML is never rendered and the
+ * resulting tree is sanitized, so model output can't inject markup or scripts.
+ */
+export const MarkdownContent: React.FC<MarkdownContentProps> = ({ content, highlight, onTimestampClick }) => {
+  const components = useMemo((): Components => {
+    if (!onTimestampClick) return markdownComponents;
+    return {
+      ...markdownComponents,
+      a: ({ node, href, children, ...props }) => {
+        const time = getTimestampFromHref(href);
+        if (time === null) return <MarkdownLink href={href} {...props}>{children}</MarkdownLink>;
+        return (
+          <button
+            type="button"
+            onClick={() => onTimestampClick(time)}
+            className="font-mono text-blue-300 bg-blue-900/40 rounded px-1 hover:bg-blue-800/60 hover:text-blue-200"
+            aria-label={`Play from ${formatTimestamp(time)}`}
+          >
+            {children}
+          </button>
+        );
+      },
+    };
+  }, [onTimestampClick]);
+
+  return (
+    <div className="space-y-3 break-words">
+      <ReactMarkdown
+        remarkPlugins={[remarkGfm]}
+        rehypePlugins={[rehypeSanitize, [rehypeHighlightTerm, highlight]]}
+        components={components}
+      >
+        {onTimestampClick ? linkifyTimestampCitations(content) : content}
+      </ReactMarkdown>
+    </div>
+  );
+};
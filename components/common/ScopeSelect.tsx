@@ -0,0 +1,23 @@
+import React from 'react';
+import { inputClassName } from './formStyles';
+
+type Scope = 'personal' | 'shared';
+
+interface ScopeSelectProps {
+    id: string;
+    value: Scope;
+    onChange: (scope: Scope) => void;
+}
+
+/**
+ * The "Visibility" field of editors for items that admins can share with everyone.
+ */
+export const ScopeSelect: React.FC<ScopeSelectProps> = ({ id, value, onChange }) => (
+    <div>
+        <label htmlFor={id} className="block text-sm font-medium text-text-secondary mb-1">Visibility</label>
+        <select id={id} value={value} onChange={(e) => onChange(e.target.value as Scope)} className={inputClassName}>
+            <option value="personal">Personal (only me)</option>
+            <option value="shared">Shared (everyone)</option>
+        </select>
+    </div>
+);
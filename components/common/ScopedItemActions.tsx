@@ -0,0 +1,52 @@
+import React, { useState } from 'react';
+import { useAppContext } from '../../contexts/AppContext';
+import { EditIcon } from '../icons/EditIcon';
+import { Trash2Icon } from '../icons/Trash2Icon';
+
+interface ScopedItemActionsProps {
+    scope: 'personal' | 'shared';
+    label: string; // Names the item in the buttons' accessible labels
+    onEdit: () => void;
+    onDelete: () => Promise<void>;
+}
+
+/**
+ * Edit and delete buttons for a personal or shared list item, with an inline
+ * "Delete? Yes / No" confirmation. Shared items can only be managed by admins,
+ * so nothing is shown to other users.
+ */
+export const ScopedItemActions: React.FC<ScopedItemActionsProps> = ({ scope, label, onEdit, onDelete }) => {
+    const { currentUser } = useAppContext();
+    const [isConfirmingDelete, setIsConfirmingDelete] = useState(false);
+
+    if (scope === 'shared' && currentUser?.role !== 'ADMIN') return null;
+
+    const handleDelete = async () => {
+        try {
+            await onDelete();
+        } finally {
+            setIsConfirmingDelete(false);
+        }
+    };
+
+    if (isConfirmingDelete) {
+        return (
+            <div className="flex items-center gap-2 py-3 text-xs flex-shrink-0">
+                <span className="text-text-secondary">Delete?</span>
+                <button onClick={handleDelete} className="text-error hover:underline">Yes</button>
+                <button onClick={() => setIsConfirmingDelete(false)} className="text-text-secondary hover:underline">No</button>
+            </div>
+        );
+    }
+
+    return (
+        <div className="flex items-center py-3 flex-shrink-0 text-text-secondary opacity-0 group-hover:opacity-100 focus-within:opacity-100 transition-opacity">
+            <button onClick={onEdit} className="p-1 rounded hover:text-white" aria-label={`Edit ${label}`}>
+                <EditIcon className="w-4 h-4" />
+            </button>
+            <button onClick={() => setIsConfirmingDelete(true)} className="p-1 rounded hover:text-error" aria-label={`Delete ${label}`}>
+                <Trash2Icon className="w-4 h-4" />
+            </button>
+        </div>
+    );
+};
@@ -0,0 +1,4 @@
+// Class names shared by the library and persona forms, so their fields and buttons look the same.
+export const inputClassName = 'w-full bg-background border border-border rounded-lg text-white p-2 focus:outline-none focus:ring-2 focus:ring-primary';
+export const secondaryButtonClassName = 'px-4 py-2 text-sm font-medium text-text-secondary bg-border rounded-md hover:bg-gray-600';
+export const primaryButtonClassName = 'px-4 py-2 text-sm font-medium text-white bg-primary rounded-md hover:bg-primary-hover disabled:opacity-50 disabled:cursor-not-allowed';
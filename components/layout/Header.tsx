@@ -8,6 +8,7 @@ import { LogOutIcon } from '../icons/LogOutIcon';
 import { BellIcon } from '../icons/BellIcon';
 import { ChevronDownIcon } from '../icons/ChevronDownIcon';
 import { UserIcon } from '../icons/UserIcon';
+import { SearchIcon } from '../icons/SearchIcon';
 
 interface HeaderProps {
     currentView: View;
@@ -17,6 +18,7 @@ interface HeaderProps {
 const viewConfig = {
     chat: { title: 'AI Chat', icon: <MessageSquareIcon className="w-6 h-6" /> },
     video: { title: 'Video Analysis', icon: <VideoIcon className="w-6 h-6" /> },
+    search: { title: 'Search', icon: <SearchIcon className="w-6 h-6" /> },
     admin: { title: 'Admin Dashboard', icon: <ShieldIcon className="w-6 h-6" /> },
     profile: { title: 'User Profile', icon: <UserIcon className="w-6 h-6" /> },
 };
@@ -0,0 +1,142 @@
+import { useState, useRef, useEffect, useCallback } from 'react';
+
+export type RecorderStatus = 'idle' | 'requesting' | 'recording';
+
+interface AudioRecorderOptions {
+    maxDurationMs: number; // Recording stops on its own once it is this long
+    onRecorded: (audio: File) => void; // Called with the finished recording, unless it was cancelled
+}
+
+// How often the elapsed time is refreshed while recording.
+const TICK_MS = 200;
+
+// Browsers record in different containers (webm in Chromium and Firefox, mp4 in Safari).
+const getFileExtension = (mimeType: string) => (mimeType.includes('mp4') ? 'm4a' : mimeType.includes('ogg') ? 'ogg' : 'webm');
+
+export const isAudioRecordingSupported = () =>
+    typeof window !== 'undefined' && typeof MediaRecorder !== 'undefined' && !!navigator.mediaDevices?.getUserMedia;
+
+/**
+ * Records audio from the microphone with `MediaRecorder`.
+ * - `level` is the current input loudness from 0 to 1, for a level meter.
+ * - Stops by itself after `maxDurationMs` and hands the recording to `onRecorded`.
+ * - Releases the microphone when recording ends or the component unmounts.
+ */
+export const useAudioRecorder = ({ maxDurationMs, onRecorded }: AudioRecorderOptions) => {
+    const [status, setStatus] = useState<RecorderStatus>('idle');
+    const [elapsedMs, setElapsedMs] = useState(0);
+    const [level, setLevel] = useState(0);
+    const [error, setError] = useState<string | null>(null);
+    const recorderRef = useRef<MediaRecorder | null>(null);
+    const streamRef = useRef<MediaStream | null>(null);
+    const audioContextRef = useRef<AudioContext | null>(null);
+    const animationFrameRef = useRef<number | null>(null);
+    const timerRef = useRef<ReturnType<typeof setInterval> | null>(null);
+    const isCancelledRef = useRef(false);
+    // Kept in a ref so a recording started with an older callback still reaches the latest one.
+    const onRecordedRef = useRef(onRecorded);
+    onRecordedRef.current = onRecorded;
+
+    const releaseResources = useCallback(() => {
+        if (timerRef.current) clearInterval(timerRef.current);
+        if (animationFrameRef.current !== null) cancelAnimationFrame(animationFrameRef.current);
+        timerRef.current = null;
+        animationFrameRef.current = null;
+        streamRef.current?.getTracks().forEach(track => track.stop());
+        streamRef.current = null;
+        audioContextRef.current?.close().catch(() => {});
+        audioContextRef.current = null;
+        setLevel(0);
+    }, []);
+
+    const stop = useCallback(() => {
+        if (recorderRef.current?.state === 'recording') {
+            recorderRef.current.stop();
+        }
+    }, []);
+
+    const cancel = useCallback(() => {
+        isCancelledRef.current = true;
+        stop();
+    }, [stop]);
+
+    // Follows the input loudness (RMS of the waveform) on every animation frame.
+    const startLevelMeter = (stream: MediaStream) => {
+        const audioContext = new AudioContext();
+        const analyser = audioContext.createAnalyser();
+        analyser.fftSize = 512;
+        audioContext.createMediaStreamSource(stream).connect(analyser);
+        audioContextRef.current = audioContext;
+
+        const samples = new Uint8Array(analyser.fftSize);
+        const update = () => {
+            analyser.getByteTimeDomainData(samples);
+            let sumOfSquares = 0;
+            for (const sample of samples) {
+                const normalized = (sample - 128) / 128;
+                sumOfSquares += normalized * normalized;
+            }
+            // Speech rarely goes past an RMS of ~0.3, so scale it up to fill the meter.
+            setLevel(Math.min(1, Math.sqrt(sumOfSquares / samples.length) * 3));
+            animationFrameRef.current = requestAnimationFrame(update);
+        };
+        update();
+    };
+
+    const start = useCallback(async () => {
+        if (status !== 'idle') return;
+        if (!isAudioRecordingSupported()) {
+            setError('Voice input is not supported in this browser.');
+            return;
+        }
+        setError(null);
+        setStatus('requesting');
+        try {
+            const stream = await navigator.mediaDevices.getUserMedia({ audio: true });
+            streamRef.current = stream;
+            const recorder = new MediaRecorder(stream);
+            const chunks: Blob[] = [];
+            isCancelledRef.current = false;
+
+            recorder.ondataavailable = (e) => {
+                if (e.data.size > 0) chunks.push(e.data);
+            };
+            recorder.onstop = () => {
+                releaseResources();
+                recorderRef.current = null;
+                setStatus('idle');
+                if (isCancelledRef.current || chunks.length === 0) return;
+                const mimeType = recorder.mimeType || chunks[0].type || 'audio/webm';
+                onRecordedRef.current(new File(chunks, `recording-${Date.now()}.${getFileExtension(mimeType)}`, { type: mimeType }));
+            };
+
+            recorderRef.current = recorder;
+            recorder.start();
+            startLevelMeter(stream);
+
+            const startedAt = Date.now();
+            setElapsedMs(0);
+            timerRef.current = setInterval(() => {
+                const elapsed = Date.now() - startedAt;
+                setElapsedMs(elapsed);
+                if (elapsed >= maxDurationMs) stop();
+            }, TICK_MS);
+            setStatus('recording');
+        } catch (err) {
+            releaseResources();
+            setStatus('idle');
+            setError(err instanceof DOMException && err.name === 'NotAllowedError'
+                ? 'Microphone access was denied. Allow it in your browser settings to use voice input.'
+                : 'Could not start recording. Check that a microphone is connected.');
+        }
+    }, [status, maxDurationMs, releaseResources, stop]);
+
+    // Drop any recording in progress if the component goes away.
+    useEffect(() => () => {
+        isCancelledRef.current = true;
+        if (recorderRef.current?.state === 'recording') recorderRef.current.stop();
+        releaseResources();
+    }, [releaseResources]);
+
+    return { status, elapsedMs, level, error, start, stop, cancel };
+};
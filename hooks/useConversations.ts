@@ -0,0 +1,205 @@
+import { useState, useEffect, useCallback, useRef, useMemo } from 'react';
+import useLocalStorageState from './useLocalStorageState';
+import { chatService } from '../services/chatService';
+import type { AiModel, Conversation, Message } from '../types';
+import { DEFAULT_AI_MODEL } from '../utils/aiModels';
+import { copyAttachments, deleteAttachments } from '../utils/attachmentStore';
+import { normalizeTags } from '../utils/conversationTags';
+
+export const DEFAULT_CONVERSATION_TITLE = 'New Conversation';
+export const CONVERSATIONS_STORAGE_KEY = 'chatConversations';
+const SYNCED_IDS_STORAGE_KEY = 'syncedConversationIds';
+
+// How long to wait after the last change before pushing a conversation to the backend.
+// Streaming responses update a conversation many times per second, so we sync once it settles.
+const SYNC_DELAY_MS = 1500;
+
+const getAttachmentIds = (conversation: Conversation) =>
+    conversation.messages
+        .flatMap(msg => msg.files || [])
+        .map(file => file.id)
+        .filter((id): id is string => !!id);
+
+/**
+ * Merges the locally stored conversations with the ones from the backend.
+ * For conversations present on both sides, the most recently updated copy wins.
+ * A local conversation the backend doesn't have is uploaded if it never reached the
+ * backend, and dropped if it did (`syncedIds`), since it was deleted on another device.
+ * @returns The merged list (newest first), the IDs the backend is missing or has stale,
+ * and the local conversations that were deleted elsewhere.
+ */
+const mergeConversations = (local: Conversation[], remote: Conversation[], syncedIds: Set<string>) => {
+    const merged = new Map<string, Conversation>();
+    const staleRemoteIds: string[] = [];
+    const deletedElsewhere: Conversation[] = [];
+
+    remote.forEach(conversation => merged.set(conversation.id, conversation));
+    local.forEach(conversation => {
+        const remoteCopy = merged.get(conversation.id);
+        if (!remoteCopy && syncedIds.has(conversation.id)) {
+            deletedElsewhere.push(conversation);
+        } else if (!remoteCopy || remoteCopy.updatedAt < conversation.updatedAt) {
+            merged.set(conversation.id, conversation);
+            staleRemoteIds.push(conversation.id);
+        }
+    });
+
+    const conversations = Array.from(merged.values()).sort((a, b) => b.updatedAt - a.updatedAt);
+    return { conversations, staleRemoteIds, deletedElsewhere };
+};
+
+/**
+ * Manages the user's saved chat conversations.
+ * - Persists conversations and the active selection in localStorage.
+ * - Loads the backend copy on mount and keeps it in sync with local changes.
+ */
+export const useConversations = () => {
+    const [conversations, setConversations] = useLocalStorageState<Conversation[]>(CONVERSATIONS_STORAGE_KEY, []);
+    const [activeConversationId, setActiveConversationId] = useLocalStorageState<string | null>('activeConversationId', null);
+    // IDs of the conversations the backend is known to have, so one missing there can be told apart from one not yet uploaded.
+    const [syncedIds, setSyncedIds] = useLocalStorageState<string[]>(SYNCED_IDS_STORAGE_KEY, []);
+    const [isSyncing, setIsSyncing] = useState(false);
+    const pendingSyncIdsRef = useRef(new Set<string>());
+    const syncedIdsRef = useRef(syncedIds);
+    syncedIdsRef.current = syncedIds;
+
+    const markSynced = useCallback((conversationId: string) => {
+        setSyncedIds(prev => (prev.includes(conversationId) ? prev : [...prev, conversationId]));
+    }, [setSyncedIds]);
+
+    useEffect(() => {
+        let isCancelled = false;
+        const loadRemoteConversations = async () => {
+            setIsSyncing(true);
+            try {
+                const remote = await chatService.getConversations();
+                if (isCancelled) return;
+                const syncedIdSet = new Set(syncedIdsRef.current);
+                setConversations(local => {
+                    const { conversations: merged, staleRemoteIds, deletedElsewhere } = mergeConversations(local, remote, syncedIdSet);
+                    staleRemoteIds.forEach(id => pendingSyncIdsRef.current.add(id));
+                    deletedElsewhere.forEach(conversation => deleteAttachments(getAttachmentIds(conversation)));
+                    return merged;
+                });
+                setSyncedIds(remote.map(conversation => conversation.id));
+            } catch (error) {
+                console.error('Failed to load conversations from the server:', error);
+                // Keep working with the local copy.
+            } finally {
+                if (!isCancelled) setIsSyncing(false);
+            }
+        };
+        loadRemoteConversations();
+        return () => { isCancelled = true; };
+    }, [setConversations, setSyncedIds]);
+
+    // Push changed conversations to the backend once they stop changing.
+    useEffect(() => {
+        if (pendingSyncIdsRef.current.size === 0) return;
+        const timer = setTimeout(() => {
+            const ids = Array.from(pendingSyncIdsRef.current);
+            pendingSyncIdsRef.current.clear();
+            ids.forEach(id => {
+                const conversation = conversations.find(c => c.id === id);
+                if (!conversation) return;
+                chatService.saveConversation(conversation)
+                    .then(() => markSynced(id))
+                    .catch(error => {
+                        console.error(`Failed to sync conversation "${id}":`, error);
+                    });
+            });
+        }, SYNC_DELAY_MS);
+        return () => clearTimeout(timer);
+    }, [conversations, markSynced]);
+
+    const updateConversation = useCallback((conversationId: string, updater: (conversation: Conversation) => Conversation) => {
+        pendingSyncIdsRef.current.add(conversationId);
+        setConversations(prev => prev.map(conversation =>
+            conversation.id === conversationId
+                ? { ...updater(conversation), updatedAt: Date.now() }
+                : conversation
+        ));
+    }, [setConversations]);
+
+    const createConversation = useCallback((model: AiModel = DEFAULT_AI_MODEL, personaId?: string): Conversation => {
+        const now = Date.now();
+        const conversation: Conversation = {
+            id: now.toString(),
+            title: DEFAULT_CONVERSATION_TITLE,
+            model,
+            messages: [],
+            ...(personaId && { personaId }),
+            createdAt: now,
+            updatedAt: now,
+        };
+        pendingSyncIdsRef.current.add(conversation.id);
+        setConversations(prev => [conversation, ...prev]);
+        setActiveConversationId(conversation.id);
+        return conversation;
+    }, [setConversations, setActiveConversationId]);
+
+    /**
+     * Adds a conversation restored from an export and selects it. It gets a new ID
+     * if one with the same ID already exists, so an import never overwrites a conversation,
+     * and its own copy of the attachments, so deleting either copy leaves the other's intact.
+     */
+    const importConversation = useCallback(async (conversation: Conversation): Promise<Conversation> => {
+        const now = Date.now();
+        const isDuplicate = conversations.some(existing => existing.id === conversation.id);
+        const messages = isDuplicate
+            ? await Promise.all(conversation.messages.map(async msg => (msg.files ? { ...msg, files: await copyAttachments(msg.files) } : msg)))
+            : conversation.messages;
+        const imported: Conversation = { ...conversation, id: isDuplicate ? now.toString() : conversation.id, messages, updatedAt: now };
+        pendingSyncIdsRef.current.add(imported.id);
+        setConversations(prev => [imported, ...prev]);
+        setActiveConversationId(imported.id);
+        return imported;
+    }, [conversations, setConversations, setActiveConversationId]);
+
+    const renameConversation = useCallback((conversationId: string, title: string) => {
+        const trimmed = title.trim();
+        if (!trimmed) return;
+        updateConversation(conversationId, conversation => ({ ...conversation, title: trimmed, isTitleCustom: true }));
+    }, [updateConversation]);
+
+    const setConversationTags = useCallback((conversationId: string, tags: string[]) => {
+        updateConversation(conversationId, conversation => ({ ...conversation, tags: normalizeTags(tags) }));
+    }, [updateConversation]);
+
+    const deleteConversation = useCallback(async (conversationId: string) => {
+        const deleted = conversations.find(conversation => conversation.id === conversationId);
+        const attachmentIds = deleted ? getAttachmentIds(deleted) : [];
+        pendingSyncIdsRef.current.delete(conversationId);
+        setConversations(prev => prev.filter(conversation => conversation.id !== conversationId));
+        setActiveConversationId(prev => (prev === conversationId ? null : prev));
+        await deleteAttachments(attachmentIds);
+        try {
+            await chatService.deleteConversation(conversationId);
+        } catch (error) {
+            console.error(`Failed to delete conversation "${conversationId}" on the server:`, error);
+        }
+    }, [conversations, setConversations, setActiveConversationId]);
+
+    const setConversationMessages = useCallback((conversationId: string, updater: (messages: Message[]) => Message[]) => {
+        updateConversation(conversationId, conversation => ({ ...conversation, messages: updater(conversation.messages) }));
+    }, [updateConversation]);
+
+    const activeConversation = useMemo(
+        () => conversations.find(conversation => conversation.id === activeConversationId) || null,
+        [conversations, activeConversationId]
+    );
+
+    return {
+        conversations,
+        activeConversation,
+        isSyncing,
+        selectConversation: setActiveConversationId,
+        createConversation,
+        importConversation,
+        renameConversation,
+        setConversationTags,
+        deleteConversation,
+        updateConversation,
+        setConversationMessages,
+    };
+};
@@ -0,0 +1,23 @@
+import { useState, useEffect } from 'react';
+
+/**
+ * Tracks whether the browser reports a network connection. A `true` value only
+ * means a network is available; requests can still fail, so callers should
+ * treat it as a hint for when to retry rather than a guarantee.
+ */
+export const useOnlineStatus = () => {
+    const [isOnline, setIsOnline] = useState(() => navigator.onLine);
+
+    useEffect(() => {
+        const handleOnline = () => setIsOnline(true);
+        const handleOffline = () => setIsOnline(false);
+        window.addEventListener('online', handleOnline);
+        window.addEventListener('offline', handleOffline);
+        return () => {
+            window.removeEventListener('online', handleOnline);
+            window.removeEventListener('offline', handleOffline);
+        };
+    }, []);
+
+    return isOnline;
+};
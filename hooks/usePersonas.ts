@@ -0,0 +1,58 @@
+import { useState, useEffect, useCallback } from 'react';
+import { personaService, type PersonaInput } from '../services/personaService';
+import type { Persona, PersonaLimits } from '../types';
+import { AIError } from '../types';
+import { DEFAULT_PERSONA_LIMITS } from '../utils/personas';
+
+const sortByName = (personas: Persona[]) =>
+    [...personas].sort((a, b) => a.name.localeCompare(b.name));
+
+/**
+ * Loads the personas available to the current user and the limits on their
+ * values, and keeps both in sync as they are changed.
+ */
+export const usePersonas = () => {
+    const [personas, setPersonas] = useState<Persona[]>([]);
+    const [limits, setLimits] = useState<PersonaLimits>(DEFAULT_PERSONA_LIMITS);
+    const [isLoading, setIsLoading] = useState(true);
+    const [error, setError] = useState<string | null>(null);
+
+    useEffect(() => {
+        let cancelled = false;
+        Promise.all([personaService.getPersonas(), personaService.getLimits()])
+            .then(([fetchedPersonas, fetchedLimits]) => {
+                if (cancelled) return;
+                setPersonas(sortByName(fetchedPersonas));
+                setLimits(fetchedLimits);
+            })
+            .catch(err => {
+                console.error('Failed to load personas:', err);
+                if (!cancelled) setError(err instanceof AIError ? err.message : 'Failed to load personas.');
+            })
+            .finally(() => {
+                if (!cancelled) setIsLoading(false);
+            });
+        return () => { cancelled = true; };
+    }, []);
+
+    const savePersona = useCallback(async (input: PersonaInput, personaId?: string) => {
+        const saved = personaId
+            ? await personaService.updatePersona(personaId, input)
+            : await personaService.createPersona(input);
+        setPersonas(prev => sortByName([...prev.filter(persona => persona.id !== saved.id), saved]));
+        return saved;
+    }, []);
+
+    const deletePersona = useCallback(async (personaId: string) => {
+        await personaService.deletePersona(personaId);
+        setPersonas(prev => prev.filter(persona => persona.id !== personaId));
+    }, []);
+
+    const saveLimits = useCallback(async (newLimits: PersonaLimits) => {
+        const saved = await personaService.updateLimits(newLimits);
+        setLimits(saved);
+        return saved;
+    }, []);
+
+    return { personas, limits, isLoading, error, savePersona, deletePersona, saveLimits };
+};
@@ -0,0 +1,48 @@
+import { useState, useEffect, useCallback } from 'react';
+import { promptService, type PromptTemplateInput } from '../services/promptService';
+import type { PromptTemplate } from '../types';
+import { AIError } from '../types';
+
+const sortByTitle = (templates: PromptTemplate[]) =>
+    [...templates].sort((a, b) => a.title.localeCompare(b.title));
+
+/**
+ * Loads the prompt library from the backend and keeps it in sync as
+ * templates are created, edited or deleted.
+ */
+export const usePromptTemplates = () => {
+    const [templates, setTemplates] = useState<PromptTemplate[]>([]);
+    const [isLoading, setIsLoading] = useState(true);
+    const [error, setError] = useState<string | null>(null);
+
+    useEffect(() => {
+        let cancelled = false;
+        promptService.getPrompts()
+            .then(fetched => {
+                if (!cancelled) setTemplates(sortByTitle(fetched));
+            })
+            .catch(err => {
+                console.error('Failed to load prompt templates:', err);
+                if (!cancelled) setError(err instanceof AIError ? err.message : 'Failed to load prompt templates.');
+            })
+            .finally(() => {
+                if (!cancelled) setIsLoading(false);
+            });
+        return () => { cancelled = true; };
+    }, []);
+
+    const saveTemplate = useCallback(async (input: PromptTemplateInput, templateId?: string) => {
+        const saved = templateId
+            ? await promptService.updatePrompt(templateId, input)
+            : await promptService.createPrompt(input);
+        setTemplates(prev => sortByTitle([...prev.filter(template => template.id !== saved.id), saved]));
+        return saved;
+    }, []);
+
+    const deleteTemplate = useCallback(async (templateId: string) => {
+        await promptService.deletePrompt(templateId);
+        setTemplates(prev => prev.filter(template => template.id !== templateId));
+    }, []);
+
+    return { templates, isLoading, error, saveTemplate, deleteTemplate };
+};
@@ -0,0 +1,130 @@
+import { useState, useRef, useEffect, useCallback, useMemo } from 'react';
+import useLocalStorageState from './useLocalStorageState';
+import {
+    DEFAULT_SPEECH_PREFERENCES,
+    SPEECH_PREFERENCES_STORAGE_KEY,
+    getCompleteSentencesLength,
+    isSpeechSynthesisSupported,
+    splitSentences,
+    toSpeakableText,
+    type SpeechPreferences,
+} from '../utils/speech';
+
+/**
+ * The read-aloud preferences saved in this browser, with defaults for any that are missing.
+ */
+export const useSpeechPreferences = () => {
+    const [stored, setStored] = useLocalStorageState<Partial<SpeechPreferences>>(SPEECH_PREFERENCES_STORAGE_KEY, {});
+    const preferences: SpeechPreferences = useMemo(() => ({ ...DEFAULT_SPEECH_PREFERENCES, ...stored }), [stored]);
+    const updatePreferences = useCallback(
+        (changes: Partial<SpeechPreferences>) => setStored(prev => ({ ...prev, ...changes })),
+        [setStored]
+    );
+    return [preferences, updatePreferences] as const;
+};
+
+/**
+ * The voices the browser offers. Most browsers load them asynchronously,
+ * so the list starts empty and fills in once `voiceschanged` fires.
+ */
+export const useSpeechVoices = () => {
+    const [voices, setVoices] = useState<SpeechSynthesisVoice[]>(() => (isSpeechSynthesisSupported() ? speechSynthesis.getVoices() : []));
+
+    useEffect(() => {
+        if (!isSpeechSynthesisSupported()) return;
+        const handleVoicesChanged = () => setVoices(speechSynthesis.getVoices());
+        speechSynthesis.addEventListener('voiceschanged', handleVoicesChanged);
+        return () => speechSynthesis.removeEventListener('voiceschanged', handleVoicesChanged);
+    }, []);
+
+    return voices;
+};
+
+/**
+ * Reads model replies aloud with the Web Speech API, one message at a time.
+ * - `speak` reads a finished message; `stop` silences whatever is being read.
+ * - `startFollowing`, `follow` and `finishFollowing` read a streaming reply
+ *   sentence by sentence as its text grows; `stopFollowing` drops it if the reply fails.
+ */
+export const useReadAloud = () => {
+    const [preferences] = useSpeechPreferences();
+    const [speakingMessageId, setSpeakingMessageId] = useState<string | null>(null);
+    const followedRef = useRef<{ messageId: string; spokenLength: number } | null>(null);
+    const pendingCountRef = useRef(0);
+    // Bumped by `stop` so callbacks of cancelled utterances are ignored.
+    const generationRef = useRef(0);
+    const isSupported = isSpeechSynthesisSupported();
+
+    const enqueue = useCallback((messageId: string, markdown: string) => {
+        const generation = generationRef.current;
+        const voice = speechSynthesis.getVoices().find(v => v.voiceURI === preferences.voiceURI);
+        splitSentences(toSpeakableText(markdown)).forEach(sentence => {
+            const utterance = new SpeechSynthesisUtterance(sentence);
+            utterance.lang = voice?.lang ?? preferences.lang;
+            utterance.rate = preferences.rate;
+            if (voice) utterance.voice = voice;
+            utterance.onend = utterance.onerror = () => {
+                if (generation !== generationRef.current) return;
+                pendingCountRef.current--;
+                // A followed reply may still have sentences to come, so it stays "speaking" until finished.
+                if (pendingCountRef.current === 0 && followedRef.current?.messageId !== messageId) {
+                    setSpeakingMessageId(null);
+                }
+            };
+            pendingCountRef.current++;
+            speechSynthesis.speak(utterance);
+            setSpeakingMessageId(messageId);
+        });
+    }, [preferences]);
+
+    const stop = useCallback(() => {
+        if (!isSupported) return;
+        generationRef.current++;
+        pendingCountRef.current = 0;
+        followedRef.current = null;
+        speechSynthesis.cancel();
+        setSpeakingMessageId(null);
+    }, [isSupported]);
+
+    const speak = useCallback((messageId: string, text: string) => {
+        if (!isSupported) return;
+        stop();
+        enqueue(messageId, text);
+    }, [isSupported, stop, enqueue]);
+
+    const startFollowing = useCallback((messageId: string) => {
+        if (!isSupported || !preferences.readWhileStreaming) return;
+        stop();
+        followedRef.current = { messageId, spokenLength: 0 };
+        setSpeakingMessageId(messageId);
+    }, [isSupported, preferences.readWhileStreaming, stop]);
+
+    const follow = useCallback((messageId: string, text: string) => {
+        const followed = followedRef.current;
+        if (!followed || followed.messageId !== messageId) return;
+        const end = getCompleteSentencesLength(text);
+        if (end <= followed.spokenLength) return;
+        enqueue(messageId, text.slice(followed.spokenLength, end));
+        followed.spokenLength = end;
+    }, [enqueue]);
+
+    // Reads whatever is left once the reply is complete (or was cut short).
+    const finishFollowing = useCallback((messageId: string, text: string) => {
+        const followed = followedRef.current;
+        if (!followed || followed.messageId !== messageId) return;
+        followedRef.current = null;
+        enqueue(messageId, text.slice(followed.spokenLength));
+        if (pendingCountRef.current === 0) setSpeakingMessageId(null);
+    }, [enqueue]);
+
+    const stopFollowing = useCallback((messageId: string) => {
+        if (followedRef.current?.messageId === messageId) stop();
+    }, [stop]);
+
+    // Don't keep talking after leaving the view.
+    useEffect(() => () => {
+        if (isSpeechSynthesisSupported()) speechSynthesis.cancel();
+    }, []);
+
+    return { isSupported, speakingMessageId, speak, stop, startFollowing, follow, finishFollowing, stopFollowing };
+};
@@ -0,0 +1,9 @@
+import useLocalStorageState from './useLocalStorageState';
+import type { VideoAnalysisHistoryItem } from '../types';
+
+export const VIDEO_HISTORY_STORAGE_KEY = 'videoAnalysisHistory';
+
+/**
+ * The user's saved video analyses, persisted in localStorage.
+ */
+export const useVideoHistory = () => useLocalStorageState<VideoAnalysisHistoryItem[]>(VIDEO_HISTORY_STORAGE_KEY, []);
@@ -0,0 +1,188 @@
+import { useState, useRef, useEffect, useLayoutEffect, useCallback } from 'react';
+
+export type ScrollAlign = 'start' | 'center' | 'end';
+
+export interface VirtualItem {
+    index: number;
+    key: string | number;
+    start: number; // Offset from the top of the list, in px
+}
+
+interface VirtualListOptions {
+    count: number;
+    estimateSize: number; // Height in px assumed for items that haven't been rendered yet
+    getItemKey?: (index: number) => string | number; // Measured heights are remembered per key
+    overscan?: number; // How far in px beyond the viewport items are still rendered
+}
+
+// Frames during which `scrollToIndex` keeps correcting its target as items get measured.
+const SCROLL_SETTLE_FRAMES = 12;
+
+/**
+ * Renders only the items of a long list that are in or near the viewport.
+ * - Attach `scrollRef` to the scrolling element and `listRef` to the list inside it,
+ *   which should be `position: relative` and `totalSize` px tall.
+ * - Position each of `virtualItems` absolutely at its `start`, with `data-index`
+ *   set and `measureElement` as its ref, so its real height is used once known.
+ * - `scrollToIndex` replaces `scrollIntoView`, which can't reach items that aren't rendered.
+ */
+export const useVirtualList = ({ count, estimateSize, getItemKey = (index) => index, overscan = 600 }: VirtualListOptions) => {
+    const scrollRef = useRef<HTMLDivElement>(null);
+    const listRef = useRef<HTMLDivElement>(null);
+    const sizesRef = useRef(new Map<string | number, number>());
+    const [viewport, setViewport] = useState({ scrollTop: 0, height: 0 });
+    const [, setMeasureVersion] = useState(0);
+    const resizeObserverRef = useRef<ResizeObserver | null>(null);
+    const scrollFrameRef = useRef<number | null>(null);
+    const isSettlingScrollRef = useRef(false);
+
+    // Item offsets, with one extra entry for the end of the list.
+    const starts = new Array<number>(count + 1);
+    const keys = new Array<string | number>(count);
+    starts[0] = 0;
+    for (let i = 0; i < count; i++) {
+        keys[i] = getItemKey(i);
+        starts[i + 1] = starts[i] + (sizesRef.current.get(keys[i]) ?? estimateSize);
+    }
+    const totalSize = starts[count];
+    // Read by callbacks that run outside of render.
+    const layoutRef = useRef({ starts, keys, totalSize });
+    layoutRef.current = { starts, keys, totalSize };
+
+    // The list may sit below other content in the scrolling element (headers, padding).
+    const getListOffset = useCallback(() => {
+        const container = scrollRef.current;
+        const list = listRef.current;
+        if (!container || !list) return 0;
+        return list.getBoundingClientRect().top - container.getBoundingClientRect().top + container.scrollTop;
+    }, []);
+
+    const readViewport = useCallback(() => {
+        const container = scrollRef.current;
+        if (!container) return;
+        const scrollTop = container.scrollTop - getListOffset();
+        const height = container.clientHeight;
+        setViewport(prev => (prev.scrollTop === scrollTop && prev.height === height ? prev : { scrollTop, height }));
+    }, [getListOffset]);
+
+    useLayoutEffect(() => {
+        const container = scrollRef.current;
+        if (!container) return;
+        readViewport();
+        container.addEventListener('scroll', readViewport, { passive: true });
+        const observer = new ResizeObserver(readViewport);
+        observer.observe(container);
+        return () => {
+            container.removeEventListener('scroll', readViewport);
+            observer.disconnect();
+        };
+    }, [readViewport]);
+
+    const recordSize = useCallback((element: HTMLElement) => {
+        const index = Number(element.dataset.index);
+        const { starts, keys } = layoutRef.current;
+        const key = keys[index];
+        if (key === undefined) return;
+        const size = element.getBoundingClientRect().height;
+        const previous = sizesRef.current.get(key);
+        if (previous === size) return;
+        sizesRef.current.set(key, size);
+
+        // Keep what the user is looking at in place when an item above it changes height.
+        const container = scrollRef.current;
+        if (container && !isSettlingScrollRef.current && starts[index] < container.scrollTop - getListOffset()) {
+            container.scrollTop += size - (previous ?? estimateSize);
+        }
+        setMeasureVersion(version => version + 1);
+    }, [estimateSize, getListOffset]);
+
+    const measureElement = useCallback((element: HTMLElement | null) => {
+        if (!element) return;
+        if (!resizeObserverRef.current) {
+            resizeObserverRef.current = new ResizeObserver(entries => {
+                entries.forEach(entry => {
+                    const target = entry.target as HTMLElement;
+                    // Removed items report a last resize to zero; stop watching them instead.
+                    if (!target.isConnected) {
+                        resizeObserverRef.current?.unobserve(target);
+                        return;
+                    }
+                    recordSize(target);
+                });
+            });
+        }
+        resizeObserverRef.current.observe(element);
+        recordSize(element);
+    }, [recordSize]);
+
+    useEffect(() => () => {
+        resizeObserverRef.current?.disconnect();
+        if (scrollFrameRef.current !== null) cancelAnimationFrame(scrollFrameRef.current);
+    }, []);
+
+    const getScrollTop = useCallback((index: number, align: ScrollAlign) => {
+        const container = scrollRef.current!;
+        const { starts, totalSize } = layoutRef.current;
+        const itemStart = starts[index];
+        const itemSize = starts[index + 1] - itemStart;
+        const viewportHeight = container.clientHeight;
+        const offset = align === 'start'
+            ? itemStart
+            : align === 'center'
+                ? itemStart - (viewportHeight - itemSize) / 2
+                : itemStart + itemSize - viewportHeight;
+        const listOffset = getListOffset();
+        const maxScrollTop = Math.max(0, container.scrollHeight - viewportHeight);
+        // Include whatever follows the list, such as padding, when scrolling to its very end.
+        if (align === 'end' && index === starts.length - 2) return maxScrollTop;
+        return Math.min(maxScrollTop, Math.max(0, Math.min(offset, totalSize) + listOffset));
+    }, [getListOffset]);
+
+    /**
+     * Scrolls the item at `index` into view. Items on the way may not have been
+     * measured yet, so the target is corrected over the next few frames as they render.
+     */
+    const scrollToIndex = useCallback((index: number, { align = 'start', behavior = 'auto' }: { align?: ScrollAlign; behavior?: ScrollBehavior } = {}) => {
+        if (!scrollRef.current || index < 0 || index >= layoutRef.current.keys.length) return;
+        if (scrollFrameRef.current !== null) cancelAnimationFrame(scrollFrameRef.current);
+        isSettlingScrollRef.current = true;
+        let previousTarget = -1;
+        let frame = 0;
+        const step = () => {
+            const container = scrollRef.current;
+            if (!container || index >= layoutRef.current.keys.length) {
+                isSettlingScrollRef.current = false;
+                return;
+            }
+            const target = getScrollTop(index, align);
+            if (Math.abs(target - previousTarget) > 1) {
+                container.scrollTo({ top: target, behavior });
+                previousTarget = target;
+            }
+            if (++frame < SCROLL_SETTLE_FRAMES) {
+                scrollFrameRef.current = requestAnimationFrame(step);
+            } else {
+                scrollFrameRef.current = null;
+                isSettlingScrollRef.current = false;
+            }
+        };
+        step();
+    }, [getScrollTop]);
+
+    // Binary search for the first item that ends below the top of the rendered range.
+    const rangeTop = viewport.scrollTop - overscan;
+    const rangeBottom = viewport.scrollTop + viewport.height + overscan;
+    let low = 0;
+    let high = count;
+    while (low < high) {
+        const mid = (low + high) >> 1;
+        if (starts[mid + 1] <= rangeTop) low = mid + 1;
+        else high = mid;
+    }
+    const virtualItems: VirtualItem[] = [];
+    for (let i = low; i < count && starts[i] < rangeBottom; i++) {
+        virtualItems.push({ index: i, key: keys[i], start: starts[i] });
+    }
+
+    return { scrollRef, listRef, virtualItems, totalSize, measureElement, scrollToIndex };
+};
@@ -1,21 +1,169 @@
 import { apiClient } from './apiClient';
-import type { AiModel, AIModelConfig } from '../types';
+import type { AiModel, AIModelConfig, ChatHistoryTurn, ChatStreamEvent, Citation, Message, VideoAnalysisResult } from '../types';
+import { formatTimestamp } from '../utils/timestamps';
+import { DEFAULT_CONTEXT_BUDGET, estimateMessageTokens, estimateTokens, isContextMessage } from '../utils/tokenUtils';
+import { formatSummaryContext } from '../utils/contextSummary';
+
+// Stands in for the prompt of a pinned reply that is older than the rest of the history sent.
+const PINNED_REPLY_PROMPT = '(Earlier in the conversation)';
+
+/**
+ * Converts prior messages into history turns for the model, keeping the most
+ * recent turns that fit in the token budget. Pinned messages are kept whatever
+ * their age, error notices and empty replies are skipped, and the history
+ * always starts with a user turn: leading unpinned replies are dropped, and a
+ * pinned reply whose prompt didn't fit gets a placeholder prompt in front.
+ */
+const buildHistoryPayload = (model: AiModel, history: Message[], message: string, budget: number): ChatHistoryTurn[] => {
+    const messages = history.filter(isContextMessage);
+    const pinnedCost = messages.filter(msg => msg.pinned).reduce((sum, msg) => sum + estimateMessageTokens(msg, model), 0);
+    let remaining = budget - estimateTokens(message, model) - pinnedCost;
+    let isFull = false;
+    const included: Message[] = [];
+
+    for (let i = messages.length - 1; i >= 0; i--) {
+        const msg = messages[i];
+        if (!msg.pinned) {
+            // Once a turn doesn't fit, every older unpinned turn is dropped too.
+            const cost = estimateMessageTokens(msg, model);
+            if (isFull || cost > remaining) {
+                isFull = true;
+                continue;
+            }
+            remaining -= cost;
+        }
+
+        included.unshift(msg);
+    }
+
+    while (included.length > 0 && included[0].sender !== 'user' && !included[0].pinned) {
+        included.shift();
+    }
+    const turns: ChatHistoryTurn[] = included.map(msg => ({
+        role: msg.sender,
+        text: msg.text,
+        ...(msg.files && msg.files.length > 0 && { attachments: msg.files }),
+    }));
+    if (turns.length > 0 && turns[0].role !== 'user') {
+        turns.unshift({ role: 'user', text: PINNED_REPLY_PROMPT });
+    }
+    return turns;
+};
+
+const isRecord = (value: unknown): value is Record<string, any> => typeof value === 'object' && value !== null;
+
+/**
+ * Checks a raw stream event against the `ChatStreamEvent` shapes. Events of
+ * unknown types are dropped so the backend can add new ones without breaking older clients.
+ */
+const toChatStreamEvent = (raw: unknown): ChatStreamEvent | null => {
+    if (!isRecord(raw)) return null;
+    switch (raw.type) {
+        case 'delta':
+            return typeof raw.text === 'string' ? { type: 'delta', text: raw.text } : null;
+        case 'usage':
+            return isRecord(raw.usage) && Number.isFinite(raw.usage.promptTokens) && Number.isFinite(raw.usage.completionTokens)
+                ? { type: 'usage', usage: { promptTokens: raw.usage.promptTokens, completionTokens: raw.usage.completionTokens } }
+                : null;
+        case 'citation':
+            return isRecord(raw.citation) ? { type: 'citation', citation: raw.citation as Citation } : null;
+        case 'error':
+            return { type: 'error', message: typeof raw.message === 'string' && raw.message ? raw.message : 'The model failed to finish its reply.' };
+        case 'done':
+            return { type: 'done' };
+        default:
+            return null;
+    }
+};
+
+async function* streamChatEvents(body: Record<string, any>, signal?: AbortSignal): AsyncGenerator<ChatStreamEvent> {
+    for await (const raw of apiClient.stream<unknown>('/api/chat', body, signal)) {
+        const event = toChatStreamEvent(raw);
+        if (event) yield event;
+    }
+}
 
 /**
  * A layer of abstraction for sending chat messages to the backend proxy.
- * This function returns an async generator to stream the response.
+ * This function returns an async generator of typed `ChatStreamEvent`s.
+ * Prior messages passed in `options.history` are sent along as multi-turn
+ * context, trimmed to `options.contextBudget` tokens; `options.summary` stands
+ * in for older turns that were left out. Aborting `options.signal` stops the
+ * stream with an `AbortError`.
  */
 export async function* sendAIMessageStream(
     model: AiModel,
     message: string,
-    file?: File,
-    config?: AIModelConfig
-): AsyncGenerator<string> {
-    const body = { model, message, file, config };
-    // The `yield*` keyword delegates the generation to the apiClient's stream method.
-    yield* apiClient.stream('/api/chat', body);
+    files: File[] = [],
+    config?: AIModelConfig,
+    options?: {
+        history?: Message[];
+        contextBudget?: number;
+        summary?: string;
+        signal?: AbortSignal;
+    }
+): AsyncGenerator<ChatStreamEvent> {
+    const context = options?.summary ? formatSummaryContext(options.summary) : undefined;
+    const budget = (options?.contextBudget ?? DEFAULT_CONTEXT_BUDGET) - (context ? estimateTokens(context, model) : 0);
+    const history = buildHistoryPayload(model, options?.history ?? [], message, budget);
+    const body = { model, message, files, config, history, ...(context && { context }) };
+    yield* streamChatEvents(body, options?.signal);
 }
 
+/**
+ * Asks the model for a short summary of `messages`, to be sent in their place
+ * once they no longer fit the context budget. An earlier summary is folded into the new one.
+ * @returns The summary text.
+ */
+export async function summarizeMessages(
+    model: AiModel,
+    messages: Message[],
+    previousSummary?: string,
+    signal?: AbortSignal
+): Promise<string> {
+    const turns = messages.map(msg => ({ role: msg.sender, text: msg.text }));
+    const { summary } = await apiClient.post<{ summary: string }>('/api/chat/summarize', { model, turns, previousSummary }, signal);
+    return (summary ?? '').trim();
+}
+
+// Appended to the model's system prompt so answers stay grounded and cite the transcript.
+const VIDEO_CHAT_INSTRUCTIONS = 'Answer using only the video analysis provided as context. '
+    + 'When referring to something said in the video, cite the start time of the transcript segment in square brackets, e.g. [01:23]. '
+    + 'If the context does not contain the answer, say so.';
+
+// The analysis as plain text for the model: summary, keywords and a timestamped transcript.
+export const buildVideoContext = (analysis: VideoAnalysisResult) => [
+    `Summary:\n${analysis.summary}`,
+    `Keywords: ${analysis.keywords.join(', ')}`,
+    `Transcript:\n${analysis.transcription.map(segment => `[${formatTimestamp(segment.start)}] ${segment.text}`).join('\n')}`,
+].join('\n\n');
+
+/**
+ * Streams an answer to a follow-up question about an analyzed video. The summary,
+ * keywords and timestamped transcript are sent as `context`, and whatever budget
+ * they leave is used for prior turns from `options.history`.
+ */
+export async function* askAboutVideoStream(
+    model: AiModel,
+    question: string,
+    analysis: VideoAnalysisResult,
+    config?: AIModelConfig,
+    options?: {
+        history?: Message[];
+        contextBudget?: number;
+        signal?: AbortSignal;
+    }
+): AsyncGenerator<ChatStreamEvent> {
+    const context = buildVideoContext(analysis);
+    const budget = (options?.contextBudget ?? DEFAULT_CONTEXT_BUDGET) - estimateTokens(context, model);
+    const history = buildHistoryPayload(model, options?.history ?? [], question, budget);
+    const groundedConfig = config && {
+        ...config,
+        systemPrompt: config.systemPrompt ? `${config.systemPrompt}\n\n${VIDEO_CHAT_INSTRUCTIONS}` : VIDEO_CHAT_INSTRUCTIONS,
+    };
+    const body = { model, message: question, files: [], config: groundedConfig, history, context };
+    yield* streamChatEvents(body, options?.signal);
+}
 
 /**
  * A layer of abstraction for analyzing videos via the backend proxy.
@@ -51,4 +199,27 @@ export async function analyzeVideoWithAI(
         endpoint = '/api/video/submit';
         return apiClient.postFormData(endpoint, body);
     }
-}
\ No newline at end of file
+}
+
+/**
+ * Asks the model for a short title and topic tags for a conversation, from its
+ * first exchange. The backend keeps this call cheap by using the model's smallest variant.
+ */
+export async function describeConversation(
+    model: AiModel,
+    turns: ChatHistoryTurn[],
+    signal?: AbortSignal
+): Promise<{ title: string; tags: string[] }> {
+    const { title, tags } = await apiClient.post<{ title?: string; tags?: string[] }>('/api/chat/describe', { model, turns }, signal);
+    return { title: (title ?? '').trim(), tags: Array.isArray(tags) ? tags : [] };
+}
+
+/**
+ * Transcribes a voice recording for the chat input. The backend runs it through
+ * the same Whisper pipeline as video transcription, using the admin-set `TranscriptionConfig`.
+ * @returns The recognized text, trimmed; empty if no speech was detected.
+ */
+export async function transcribeAudio(audio: File, signal?: AbortSignal): Promise<string> {
+    const { text } = await apiClient.postFormDataJson<{ text: string }>('/api/transcribe', { audioFile: audio }, signal);
+    return (text ?? '').trim();
+}
@@ -88,7 +88,10 @@ const buildFormData = (body: Record<string, any>): FormData => {
     Object.keys(body).forEach(key => {
         const value = body[key];
         if (value !== undefined && value !== null) {
-            if (typeof value === 'object' && !(value instanceof File)) {
+            if (Array.isArray(value) && value.length > 0 && value.every(item => item instanceof File)) {
+                // Multiple files are sent as repeated fields under the same key.
+                value.forEach(file => formData.append(key, file));
+            } else if (typeof value === 'object' && !(value instanceof File)) {
                 formData.append(key, JSON.stringify(value));
             } else {
                 formData.append(key, value);
@@ -98,12 +101,21 @@ const buildFormData = (body: Record<string, any>): FormData => {
     return formData;
 };
 
+const parseStreamLine = <T>(line: string): T => {
+    try {
+        return JSON.parse(line) as T;
+    } catch {
+        throw new AIError('Received a malformed response from the server.', 'generic');
+    }
+};
+
 /**
- * A streaming API client for chat responses, refactored for efficiency.
- * It now uses `pipeThrough` with `TextDecoderStream` for optimal decoding.
+ * A streaming API client for chat responses. The backend answers with
+ * newline-delimited JSON (NDJSON); each line is parsed and yielded as one event.
+ * Aborting the optional `signal` rejects the pending read with an `AbortError`.
  */
-async function* stream(endpoint: string, body: Record<string, any>): AsyncGenerator<string> {
-    const headers = new Headers();
+async function* stream<T>(endpoint: string, body: Record<string, any>, signal?: AbortSignal): AsyncGenerator<T> {
+    const headers = new Headers({ Accept: 'application/x-ndjson' });
     const token = localStorage.getItem(TOKEN_KEY);
     if (token) {
         headers.set('Authorization', `Bearer ${token}`);
@@ -113,6 +125,7 @@ async function* stream(endpoint: string, body: Record<string, any>): AsyncGenera
         method: 'POST',
         body: buildFormData(body),
         headers,
+        signal,
     });
 
     if (!response.ok || !response.body) {
@@ -121,16 +134,31 @@ async function* stream(endpoint: string, body: Record<string, any>): AsyncGenera
     
     // Use the modern and efficient Streams API for decoding
     const reader = response.body.pipeThrough(new TextDecoderStream()).getReader();
+    let isComplete = false;
+    let buffer = ''; // Holds a line that hasn't been fully received yet
 
     try {
         while (true) {
             const { done, value } = await reader.read();
             if (done) {
+                isComplete = true;
                 break;
             }
-            yield value;
+            buffer += value;
+            const lines = buffer.split('\n');
+            buffer = lines.pop() ?? '';
+            for (const line of lines) {
+                if (line.trim()) yield parseStreamLine<T>(line);
+            }
+        }
+        if (buffer.trim()) {
+            yield parseStreamLine<T>(buffer);
         }
     } finally {
+        if (!isComplete) {
+            // Aborted or abandoned by the consumer: cancel so the connection is closed.
+            await reader.cancel().catch(() => {});
+        }
         reader.releaseLock();
     }
 }
@@ -227,7 +255,7 @@ function postWithProgress(
 
 export const apiClient = {
     get: <T>(endpoint: string) => request<T>(endpoint, { method: 'GET' }),
-    post: <T>(endpoint: string, data: any) => request<T>(endpoint, { method: 'POST', body: JSON.stringify(data) }),
+    post: <T>(endpoint: string, data: any, signal?: AbortSignal) => request<T>(endpoint, { method: 'POST', body: JSON.stringify(data), signal }),
     put: <T>(endpoint: string, data: any) => request<T>(endpoint, { method: 'PUT', body: JSON.stringify(data) }),
     delete: <T>(endpoint: string) => request<T>(endpoint, { method: 'DELETE' }),
     
@@ -238,6 +266,14 @@ export const apiClient = {
         });
     },
 
+    postFormDataJson: <T>(endpoint: string, data: Record<string, any>, signal?: AbortSignal): Promise<T> => {
+        return request<T>(endpoint, {
+            method: 'POST',
+            body: buildFormData(data),
+            signal,
+        });
+    },
+
     postFormData: async (endpoint: string, body: Record<string, any>): Promise<string> => {
         const headers = new Headers();
         const token = localStorage.getItem(TOKEN_KEY);
@@ -0,0 +1,34 @@
+import type { Conversation, ResponseFeedback } from '../types';
+import { apiClient } from './apiClient';
+
+export const chatService = {
+    getConversations(): Promise<Conversation[]> {
+        return apiClient.get<Conversation[]>('/api/chat/conversations');
+    },
+
+    /**
+     * Creates or replaces a conversation on the backend. The client owns
+     * conversation IDs, so a single upsert covers both cases.
+     */
+    saveConversation(conversation: Conversation): Promise<Conversation> {
+        return apiClient.put<Conversation>(`/api/chat/conversations/${conversation.id}`, conversation);
+    },
+
+    deleteConversation(conversationId: string): Promise<void> {
+        return apiClient.delete<void>(`/api/chat/conversations/${conversationId}`);
+    },
+
+    /**
+     * Records a rating of a model reply. Rating the same reply again replaces the earlier rating.
+     */
+    submitFeedback(feedback: Omit<ResponseFeedback, 'id' | 'userName' | 'createdAt'>): Promise<ResponseFeedback> {
+        return apiClient.post<ResponseFeedback>('/api/chat/feedback', feedback);
+    },
+
+    /**
+     * Lists every user's ratings, newest first. Admins only.
+     */
+    getAllFeedback(): Promise<ResponseFeedback[]> {
+        return apiClient.get<ResponseFeedback[]>('/api/admin/chat/feedback');
+    }
+};
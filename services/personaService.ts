@@ -0,0 +1,35 @@
+import type { Persona, PersonaLimits } from '../types';
+import { apiClient } from './apiClient';
+
+export type PersonaInput = Pick<Persona, 'name' | 'systemPrompt' | 'temperature' | 'defaultModel' | 'scope'>;
+
+/**
+ * CRUD for personas, plus the admin-defined limits on their values. The backend
+ * returns the caller's personal personas together with the shared ones, only lets
+ * admins write shared personas and limits, and applies the limits when saving.
+ */
+export const personaService = {
+    getPersonas(): Promise<Persona[]> {
+        return apiClient.get<Persona[]>('/api/personas');
+    },
+
+    createPersona(persona: PersonaInput): Promise<Persona> {
+        return apiClient.post<Persona>('/api/personas', persona);
+    },
+
+    updatePersona(personaId: string, persona: PersonaInput): Promise<Persona> {
+        return apiClient.put<Persona>(`/api/personas/${personaId}`, persona);
+    },
+
+    deletePersona(personaId: string): Promise<void> {
+        return apiClient.delete<void>(`/api/personas/${personaId}`);
+    },
+
+    getLimits(): Promise<PersonaLimits> {
+        return apiClient.get<PersonaLimits>('/api/personas/limits');
+    },
+
+    updateLimits(limits: PersonaLimits): Promise<PersonaLimits> {
+        return apiClient.put<PersonaLimits>('/api/admin/personas/limits', limits);
+    }
+};
@@ -0,0 +1,26 @@
+import type { PromptTemplate } from '../types';
+import { apiClient } from './apiClient';
+
+export type PromptTemplateInput = Pick<PromptTemplate, 'title' | 'content' | 'scope'>;
+
+/**
+ * CRUD for the prompt library. The backend returns the caller's personal
+ * templates together with the shared ones, and only lets admins write shared templates.
+ */
+export const promptService = {
+    getPrompts(): Promise<PromptTemplate[]> {
+        return apiClient.get<PromptTemplate[]>('/api/prompts');
+    },
+
+    createPrompt(prompt: PromptTemplateInput): Promise<PromptTemplate> {
+        return apiClient.post<PromptTemplate>('/api/prompts', prompt);
+    },
+
+    updatePrompt(promptId: string, prompt: PromptTemplateInput): Promise<PromptTemplate> {
+        return apiClient.put<PromptTemplate>(`/api/prompts/${promptId}`, prompt);
+    },
+
+    deletePrompt(promptId: string): Promise<void> {
+        return apiClient.delete<void>(`/api/prompts/${promptId}`);
+    }
+};
@@ -1,4 +1,11 @@
-export type View = 'chat' | 'video' | 'admin' | 'profile';
+export type View = 'chat' | 'video' | 'search' | 'admin' | 'profile';
+
+/**
+ * A place another view can be asked to open, e.g. from a search result.
+ */
+export type NavigationTarget =
+  | { type: 'message'; conversationId: string; messageId: string }
+  | { type: 'segment'; historyId: string; segmentIndex: number };
 
 export type AiModel = 'gemini' | 'openai' | 'anthropic';
 
@@ -11,15 +18,172 @@ export interface User {
 }
 
 export interface MessageFile {
+  id?: string; // Key of the stored contents in the local attachment store, when available
   name: string;
   type: string;
+  size: number; // in bytes
 }
 
 export interface Message {
   id:string;
   text: string;
   sender: 'user' | 'model';
-  file?: MessageFile;
+  files?: MessageFile[];
+  model?: AiModel; // The model that produced a reply
+  generationConfig?: AIModelConfig; // The configuration a reply was generated with
+  personaId?: string; // The persona applied when a reply was generated
+  isError?: boolean; // Set when the text is an error notice rather than a model reply
+  interrupted?: boolean; // Set when the reply stopped before it finished
+  interruptionReason?: string; // The backend's error, when it rather than the user stopped the reply
+  parentId?: string | null; // The message this one answers or follows; null for the first message
+  createdAt?: number; // Unix ms; absent on messages saved before it was recorded
+  metrics?: MessageMetrics; // Timing and usage of a model reply
+  citations?: Citation[];
+  feedback?: MessageFeedback; // The user's rating of a model reply
+  pending?: boolean; // A user message waiting in the offline outbox to be sent
+  pinned?: boolean; // Always sent as context; never trimmed or summarized away
+}
+
+/**
+ * A user's rating of a model reply, with an optional comment.
+ */
+export interface MessageFeedback {
+  rating: 'up' | 'down';
+  comment?: string;
+}
+
+/**
+ * Token counts for a single model reply, as reported by the backend.
+ */
+export interface TokenUsage {
+  promptTokens: number;
+  completionTokens: number;
+}
+
+/**
+ * A source the model referred to in a reply. `start` is set when the source
+ * is a moment in a video (seconds from the start).
+ */
+export interface Citation {
+  title?: string;
+  url?: string;
+  start?: number;
+  quote?: string;
+}
+
+/**
+ * One event of a streamed chat reply, as sent by the backend in NDJSON.
+ * A reply is a series of `delta`s, optionally with `usage` and `citation`
+ * events, and ends with `done`, or with `error` if generation failed mid-stream.
+ */
+export type ChatStreamEvent =
+  | { type: 'delta'; text: string }
+  | { type: 'usage'; usage: TokenUsage }
+  | { type: 'citation'; citation: Citation }
+  | { type: 'error'; message: string }
+  | { type: 'done' };
+
+export interface MessageMetrics {
+  timeToFirstTokenMs?: number;
+  latencyMs?: number; // From sending the request until the stream ended
+  usage?: TokenUsage;
+}
+
+/**
+ * A prior turn of a conversation, as sent to the model for multi-turn context.
+ */
+export interface ChatHistoryTurn {
+  role: 'user' | 'model';
+  text: string;
+  attachments?: MessageFile[];
+}
+
+/**
+ * A named chat thread. Conversations are persisted locally and synced
+ * with the backend so they follow the user across devices.
+ */
+export interface Conversation {
+  id: string;
+  title: string;
+  isTitleCustom?: boolean; // Set once the user renames it, so a generated title doesn't replace theirs
+  tags?: string[]; // Topic tags; absent until they have been generated after the first exchange
+  model: AiModel;
+  messages: Message[]; // Every message of every branch, in creation order
+  activeBranches?: Record<string, string>; // Selected child message ID, keyed by parent message ID
+  personaId?: string; // Persona whose system prompt and temperature replace the global ones
+  contextSummary?: ContextSummary; // Stands in for older turns that no longer fit the context budget
+  createdAt: number;
+  updatedAt: number;
+}
+
+/**
+ * A model-written summary of the older turns of a conversation. It is sent in
+ * their place while `throughMessageId` is on the active branch.
+ */
+export interface ContextSummary {
+  text: string;
+  messageIds: string[]; // The messages it covers, oldest first
+  throughMessageId: string; // The newest message it covers
+  createdAt: number;
+}
+
+/**
+ * A reusable prompt. `{{variable}}` placeholders in `content` are filled in
+ * when the template is inserted. Shared templates are managed by admins and
+ * visible to everyone; personal ones only to their owner.
+ */
+export interface PromptTemplate {
+  id: string;
+  title: string;
+  content: string;
+  scope: 'personal' | 'shared';
+  ownerId?: string;
+  createdAt: number;
+  updatedAt: number;
+}
+
+/**
+ * A named assistant setup a conversation can use instead of the global model
+ * configuration. Shared personas are published by admins and visible to everyone.
+ */
+export interface Persona {
+  id: string;
+  name: string;
+  systemPrompt: string;
+  temperature: number;
+  defaultModel: AiModel; // Selected when the persona is applied to a conversation
+  scope: 'personal' | 'shared';
+  ownerId?: string;
+  createdAt: number;
+  updatedAt: number;
+}
+
+/**
+ * The ranges admins allow persona values to take. Values outside them are
+ * capped when a persona is saved or applied.
+ */
+export interface PersonaLimits {
+  minTemperature: number;
+  maxTemperature: number;
+  maxSystemPromptLength: number; // in characters
+}
+
+/**
+ * A rating as stored by the backend, with the configuration the reply was rated
+ * under. `systemPromptVersion` is a short hash of the system prompt, so ratings
+ * can be compared across prompt changes without reading every prompt.
+ */
+export interface ResponseFeedback extends MessageFeedback {
+  id: string;
+  conversationId: string;
+  messageId: string;
+  userName?: string;
+  model: AiModel;
+  config: AIModelConfig;
+  personaId?: string;
+  systemPromptVersion: string;
+  responseText: string;
+  createdAt: number;
 }
 
 export interface TranscriptionSegment {
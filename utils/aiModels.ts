@@ -0,0 +1,14 @@
+import type { AiModel } from '../types';
+
+export const DEFAULT_AI_MODEL: AiModel = 'gemini';
+
+/**
+ * Display names for the available AI providers, in the order they are offered to users.
+ */
+export const AI_MODEL_LABELS: Record<AiModel, string> = {
+    gemini: 'Gemini',
+    openai: 'OpenAI',
+    anthropic: 'Anthropic',
+};
+
+export const AI_MODELS = Object.keys(AI_MODEL_LABELS) as AiModel[];
@@ -0,0 +1,71 @@
+import type { MessageFile } from '../types';
+import { idbGet, idbPut, idbDelete } from './indexedDb';
+
+/**
+ * Keeps the contents of chat attachments in IndexedDB so they can be previewed,
+ * downloaded and re-sent after a reload. Conversations only store the metadata
+ * (`MessageFile`); the blob is looked up by its `id`.
+ */
+
+const createAttachmentId = (index: number) => `att-${Date.now()}-${index}-${Math.random().toString(36).slice(2, 8)}`;
+
+/**
+ * Stores each file and returns the metadata to keep on the message.
+ * Files that fail to store are still listed, just without a preview.
+ */
+export const saveAttachments = async (files: File[]): Promise<MessageFile[]> =>
+    Promise.all(files.map(async (file, index) => {
+        const metadata: MessageFile = { name: file.name, type: file.type, size: file.size };
+        try {
+            const id = createAttachmentId(index);
+            await idbPut('attachments', id, file);
+            return { ...metadata, id };
+        } catch (error) {
+            console.error(`Failed to store attachment "${file.name}":`, error);
+            return metadata;
+        }
+    }));
+
+export const getAttachmentBlob = async (id: string): Promise<Blob | null> => {
+    try {
+        return (await idbGet<Blob>('attachments', id)) || null;
+    } catch (error) {
+        console.error(`Failed to read attachment "${id}":`, error);
+        return null;
+    }
+};
+
+/**
+ * Rebuilds `File` objects for the attachments that are still available on this device.
+ */
+export const getAttachmentFiles = async (files: MessageFile[] = []): Promise<File[]> => {
+    const restored = await Promise.all(files.map(async file => {
+        const blob = file.id ? await getAttachmentBlob(file.id) : null;
+        return blob ? new File([blob], file.name, { type: file.type }) : null;
+    }));
+    return restored.filter((file): file is File => !!file);
+};
+
+/**
+ * Stores a copy of each attachment under a new ID, so the copies can be deleted
+ * independently of the originals. Attachments missing on this device keep only their metadata.
+ */
+export const copyAttachments = async (files: MessageFile[]): Promise<MessageFile[]> =>
+    Promise.all(files.map(async ({ id: originalId, ...metadata }, index) => {
+        const blob = originalId ? await getAttachmentBlob(originalId) : null;
+        if (!blob) return metadata;
+        try {
+            const id = createAttachmentId(index);
+            await idbPut('attachments', id, blob);
+            return { ...metadata, id };
+        } catch (error) {
+            console.error(`Failed to copy attachment "${metadata.name}":`, error);
+            return metadata;
+        }
+    }));
+
+export const deleteAttachments = async (ids: string[]): Promise<void> => {
+    await Promise.all(ids.map(id => idbDelete('attachments', id).catch(error => {
+        console.error(`Failed to delete attachment "${id}":`, error);
+    })));
+};
@@ -0,0 +1,105 @@
+import type { AiModel, Persona, VideoAnalysisHistoryItem } from '../types';
+import { AI_MODELS, AI_MODEL_LABELS } from './aiModels';
+import { CommandError, type SlashCommand } from './slashCommands';
+import { buildVideoContext } from '../services/aiService';
+
+/**
+ * What the chat view exposes to its slash commands.
+ */
+export interface ChatCommandContext {
+    setModel: (model: AiModel) => void;
+    personas: Persona[];
+    applyPersona: (persona: Persona | null) => void;
+    startNewConversation: () => void;
+    exportOptions: { format: string; label: string; run: () => void }[];
+    canSummarize: boolean;
+    summarize: () => Promise<void>;
+    videoHistory: VideoAnalysisHistoryItem[];
+}
+
+// Accepts a persona by name (any case) or ID.
+const findPersona = (personas: Persona[], argument: string) =>
+    personas.find(persona => persona.id === argument || persona.name.toLowerCase() === argument.toLowerCase());
+
+const toVideoAnalysisFile = (item: VideoAnalysisHistoryItem) => {
+    const baseName = item.sourceName.split(/[\\/?#]/).filter(Boolean).pop()?.replace(/\.[^.]+$/, '') || 'video';
+    const content = `# Video analysis: ${item.sourceName}\n\n${buildVideoContext(item.result)}`;
+    return new File([content], `${baseName}-analysis.md`, { type: 'text/markdown' });
+};
+
+/**
+ * The commands available in the chat box. Add a command here to offer it;
+ * the chat input builds its menu and autocomplete from this list.
+ */
+export const CHAT_COMMANDS: SlashCommand<ChatCommandContext>[] = [
+    {
+        name: 'model',
+        argument: '<model>',
+        description: 'Switch the model for this conversation',
+        getOptions: () => AI_MODELS.map(model => ({ value: model, label: AI_MODEL_LABELS[model] })),
+        run: (argument, context) => {
+            const model = AI_MODELS.find(m => m === argument.toLowerCase() || AI_MODEL_LABELS[m].toLowerCase() === argument.toLowerCase());
+            if (!model) throw new CommandError(`Unknown model "${argument}". Choose one of: ${AI_MODELS.join(', ')}.`);
+            context.setModel(model);
+        },
+    },
+    {
+        name: 'persona',
+        argument: '<name|none>',
+        description: 'Apply a persona to this conversation, or "none" to stop using one',
+        getOptions: context => [
+            ...context.personas.map(persona => ({ value: persona.name, label: persona.scope === 'shared' ? 'Shared persona' : 'Personal persona' })),
+            { value: 'none', label: 'Use the default system prompt' },
+        ],
+        run: (argument, context) => {
+            if (argument.toLowerCase() === 'none') {
+                context.applyPersona(null);
+                return;
+            }
+            const persona = findPersona(context.personas, argument);
+            if (!persona) throw new CommandError(argument ? `No persona named "${argument}".` : 'Name the persona to apply.');
+            context.applyPersona(persona);
+        },
+    },
+    {
+        name: 'clear',
+        description: 'Start over in a new conversation; this one stays in the list',
+        run: (_, context) => context.startNewConversation(),
+    },
+    {
+        name: 'export',
+        argument: '<format>',
+        description: 'Download the conversation, e.g. /export md',
+        getOptions: context => context.exportOptions.map(option => ({ value: option.format, label: option.label })),
+        run: (argument, context) => {
+            const option = context.exportOptions.find(o => o.format === argument.toLowerCase());
+            if (!option) {
+                const formats = context.exportOptions.map(o => o.format).join(', ');
+                throw new CommandError(formats ? `Unknown format "${argument}". Choose one of: ${formats}.` : 'There is nothing to export yet.');
+            }
+            option.run();
+        },
+    },
+    {
+        name: 'summarize',
+        description: 'Summarize all but the latest exchange to free up context',
+        run: async (_, context) => {
+            if (!context.canSummarize) throw new CommandError('There are no older messages to summarize yet.');
+            await context.summarize();
+        },
+    },
+    {
+        name: 'video',
+        argument: '<historyId>',
+        description: 'Attach a saved video analysis as context for your next message',
+        getOptions: context => context.videoHistory.map(item => ({
+            value: item.id,
+            label: `${item.sourceName} · ${new Date(item.timestamp).toLocaleDateString()}`,
+        })),
+        run: (argument, context, input) => {
+            const item = context.videoHistory.find(entry => entry.id === argument);
+            if (!item) throw new CommandError(argument ? `No saved video analysis with ID "${argument}".` : 'Give the ID of a saved video analysis.');
+            input.attachFiles([toVideoAnalysisFile(item)]);
+        },
+    },
+];
@@ -0,0 +1,65 @@
+import type { ChatStreamEvent, Citation, MessageMetrics } from '../types';
+import { AIError } from '../types';
+
+/**
+ * A model reply as assembled from stream events so far.
+ */
+export interface StreamedReply {
+    text: string;
+    citations: Citation[];
+    metrics: MessageMetrics;
+    isDone: boolean; // False if the stream ended without a `done` event
+}
+
+/**
+ * Thrown when the backend reports an error mid-stream. `reply` holds what was
+ * generated before it, with the final latency, so callers can keep the partial text.
+ */
+export class ChatStreamError extends AIError {
+    constructor(message: string, public reply: StreamedReply) {
+        super(message, 'generic');
+        this.name = 'ChatStreamError';
+    }
+}
+
+/**
+ * Consumes a chat event stream, calling `onUpdate` with the reply after every
+ * event and resolving with the final reply. An `error` event is thrown as a
+ * `ChatStreamError`; aborting the request still rejects with an `AbortError`.
+ */
+export const readChatStream = async (
+    stream: AsyncGenerator<ChatStreamEvent>,
+    onUpdate: (reply: StreamedReply) => void
+): Promise<StreamedReply> => {
+    const startedAt = Date.now();
+    let reply: StreamedReply = { text: '', citations: [], metrics: {}, isDone: false };
+
+    for await (const event of stream) {
+        switch (event.type) {
+            case 'delta':
+                reply = {
+                    ...reply,
+                    text: reply.text + event.text,
+                    metrics: { ...reply.metrics, timeToFirstTokenMs: reply.metrics.timeToFirstTokenMs ?? Date.now() - startedAt },
+                };
+                break;
+            case 'usage':
+                reply = { ...reply, metrics: { ...reply.metrics, usage: event.usage } };
+                break;
+            case 'citation':
+                reply = { ...reply, citations: [...reply.citations, event.citation] };
+                break;
+            case 'error':
+                reply = { ...reply, metrics: { ...reply.metrics, latencyMs: Date.now() - startedAt } };
+                onUpdate(reply);
+                throw new ChatStreamError(event.message, reply);
+            case 'done':
+                reply = { ...reply, isDone: true };
+                break;
+        }
+        reply = { ...reply, metrics: { ...reply.metrics, latencyMs: Date.now() - startedAt } };
+        onUpdate(reply);
+        if (reply.isDone) break;
+    }
+    return reply;
+};
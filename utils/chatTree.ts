@@ -0,0 +1,93 @@
+import type { Conversation, Message } from '../types';
+
+// Key under which the selected top-level branch is stored in `Conversation.activeBranches`.
+const ROOT_KEY = 'root';
+
+const branchKey = (parentId: string | null) => parentId ?? ROOT_KEY;
+
+/**
+ * Messages saved before branching existed have no `parentId`, so their parent
+ * is taken to be the message stored just before them.
+ */
+const resolveParentId = (messages: Message[], index: number): string | null => {
+    const msg = messages[index];
+    if (msg.parentId !== undefined) return msg.parentId;
+    return index > 0 ? messages[index - 1].id : null;
+};
+
+const buildChildrenMap = (messages: Message[]) => {
+    const children = new Map<string, Message[]>();
+    messages.forEach((msg, index) => {
+        const key = branchKey(resolveParentId(messages, index));
+        const siblings = children.get(key);
+        if (siblings) {
+            siblings.push(msg);
+        } else {
+            children.set(key, [msg]);
+        }
+    });
+    return children;
+};
+
+/**
+ * Resolves the branch currently shown for a conversation: starting from the root,
+ * it follows the selected child at each level, or the newest one if none was selected.
+ */
+export const getActiveThread = (conversation: Conversation | null): Message[] => {
+    if (!conversation) return [];
+    const children = buildChildrenMap(conversation.messages);
+    const activeBranches = conversation.activeBranches || {};
+    const thread: Message[] = [];
+
+    let parentId: string | null = null;
+    while (true) {
+        const candidates = children.get(branchKey(parentId));
+        if (!candidates || candidates.length === 0) break;
+        const selected = candidates.find(msg => msg.id === activeBranches[branchKey(parentId)])
+            || candidates[candidates.length - 1];
+        thread.push(selected);
+        parentId = selected.id;
+    }
+    return thread;
+};
+
+/**
+ * Maps each message ID to the alternatives that share its parent (including itself),
+ * in creation order, along with the message's position among them.
+ */
+export const getSiblingMap = (messages: Message[]) => {
+    const siblingMap = new Map<string, { siblings: Message[]; index: number }>();
+    buildChildrenMap(messages).forEach(siblings => {
+        siblings.forEach((msg, index) => siblingMap.set(msg.id, { siblings, index }));
+    });
+    return siblingMap;
+};
+
+/**
+ * Returns the conversation's `activeBranches` map with the given messages selected at their level.
+ */
+export const selectBranches = (conversation: Conversation, messages: Message[]): Record<string, string> => {
+    const activeBranches = { ...(conversation.activeBranches || {}) };
+    messages.forEach(msg => {
+        const index = conversation.messages.findIndex(m => m.id === msg.id);
+        const parentId = index === -1 ? (msg.parentId ?? null) : resolveParentId(conversation.messages, index);
+        activeBranches[branchKey(parentId)] = msg.id;
+    });
+    return activeBranches;
+};
+
+/**
+ * Returns the messages from the root down to `messageId`, i.e. the branch
+ * that has to be selected for the message to be shown. Empty if it doesn't exist.
+ */
+export const getPathToMessage = (conversation: Conversation, messageId: string): Message[] => {
+    const { messages } = conversation;
+    const path: Message[] = [];
+    let index = messages.findIndex(msg => msg.id === messageId);
+    while (index !== -1 && path.length <= messages.length) {
+        path.unshift(messages[index]);
+        const parentId = resolveParentId(messages, index);
+        index = parentId === null ? -1 : messages.findIndex(msg => msg.id === parentId);
+    }
+    return path;
+};
@@ -0,0 +1,52 @@
+import type { AiModel, ContextSummary, Message } from '../types';
+import { estimateHistoryTokens, estimateMessageTokens, estimateTokens, isContextMessage } from './tokenUtils';
+
+// The latest exchange is always sent word for word.
+const KEEP_RECENT_MESSAGES = 2;
+
+export const formatSummaryContext = (summary: string) => `Summary of the earlier conversation:\n${summary}`;
+
+/**
+ * Replaces the messages a conversation's summary covers with the summary itself.
+ * Pinned messages are kept, and a summary written on another branch is ignored.
+ */
+export const applyContextSummary = (history: Message[], summary: ContextSummary | undefined) => {
+    if (!summary || !history.some(msg => msg.id === summary.throughMessageId)) {
+        return { history, summary: undefined };
+    }
+    const covered = new Set(summary.messageIds);
+    return { history: history.filter(msg => msg.pinned || !covered.has(msg.id)), summary };
+};
+
+/**
+ * The estimated tokens a request would spend on context: the history plus the summary, if any.
+ */
+export const estimateContextTokens = (history: Message[], summary: string | undefined, model: AiModel) =>
+    estimateHistoryTokens(history, model) + (summary ? estimateTokens(formatSummaryContext(summary), model) : 0);
+
+/**
+ * Picks the oldest unpinned messages to roll into the summary, until the rest of the
+ * history fits in `targetTokens`. The selection ends before a user message so the
+ * kept history still opens with a prompt, and the latest exchange is never included.
+ */
+export const selectMessagesToSummarize = (history: Message[], model: AiModel, targetTokens: number): Message[] => {
+    const candidates = history.slice(0, -KEEP_RECENT_MESSAGES).filter(msg => !msg.pinned && isContextMessage(msg));
+    let remaining = estimateHistoryTokens(history, model);
+    const selected: Message[] = [];
+    for (const msg of candidates) {
+        if (remaining <= targetTokens && msg.sender === 'user') break;
+        selected.push(msg);
+        remaining -= estimateMessageTokens(msg, model);
+    }
+    return selected;
+};
+
+/**
+ * The summary that results from rolling `messages` into `previous`.
+ */
+export const extendContextSummary = (previous: ContextSummary | undefined, messages: Message[], text: string): ContextSummary => ({
+    text,
+    messageIds: [...(previous?.messageIds ?? []), ...messages.map(msg => msg.id)],
+    throughMessageId: messages[messages.length - 1].id,
+    createdAt: Date.now(),
+});
@@ -0,0 +1,34 @@
+import type { Conversation } from '../types';
+
+export const MAX_CONVERSATION_TAGS = 5;
+const MAX_TAG_LENGTH = 24;
+const MAX_GENERATED_TITLE_LENGTH = 60;
+
+/**
+ * Cleans up tags from the model or the user: lowercase, single-spaced, without
+ * a leading "#", deduplicated and capped in length and number.
+ */
+export const normalizeTags = (tags: string[]): string[] =>
+    Array.from(new Set(
+        tags
+            .map(tag => tag.trim().replace(/^#+/, '').replace(/\s+/g, ' ').toLowerCase().slice(0, MAX_TAG_LENGTH).trim())
+            .filter(Boolean)
+    )).slice(0, MAX_CONVERSATION_TAGS);
+
+// Parses the comma-separated tags typed in the conversation list.
+export const parseTagInput = (input: string) => normalizeTags(input.split(','));
+
+// Models sometimes wrap titles in quotes or end them with a period.
+export const normalizeGeneratedTitle = (title: string) => {
+    const cleaned = title.trim().replace(/^["'“”]+|["'“”]+$/g, '').replace(/\.$/, '').trim();
+    return cleaned.length > MAX_GENERATED_TITLE_LENGTH ? `${cleaned.slice(0, MAX_GENERATED_TITLE_LENGTH).trimEnd()}…` : cleaned;
+};
+
+/**
+ * Every tag used across the conversations, most used first, then alphabetically.
+ */
+export const getAllTags = (conversations: Conversation[]): string[] => {
+    const counts = new Map<string, number>();
+    conversations.forEach(conversation => (conversation.tags || []).forEach(tag => counts.set(tag, (counts.get(tag) ?? 0) + 1)));
+    return Array.from(counts.keys()).sort((a, b) => counts.get(b)! - counts.get(a)! || a.localeCompare(b));
+};
@@ -1,6 +1,9 @@
 import jsPDF from 'jspdf';
 import autoTable from 'jspdf-autotable';
-import type { Message, VideoAnalysisResult, VideoMetadata } from '../types';
+import type { AiModel, AIModelConfig, Citation, ContextSummary, Conversation, Message, MessageFeedback, MessageFile, MessageMetrics, ResponseFeedback, TokenUsage, VideoAnalysisResult, VideoMetadata } from '../types';
+import { AI_MODELS, AI_MODEL_LABELS, DEFAULT_AI_MODEL } from './aiModels';
+import { getMessageMetadata } from './messageMetadata';
+import { normalizeTags } from './conversationTags';
 
 /**
  * A generic utility to trigger a file download in the browser.
@@ -9,7 +12,13 @@ import type { Message, VideoAnalysisResult, VideoMetadata } from '../types';
  * @param mimeType The MIME type of the file.
  */
 export const downloadFile = (content: string, fileName: string, mimeType: string) => {
-    const blob = new Blob([content], { type: mimeType });
+    downloadBlob(new Blob([content], { type: mimeType }), fileName);
+};
+
+/**
+ * Triggers a browser download of an existing blob, e.g. a stored attachment.
+ */
+export const downloadBlob = (blob: Blob, fileName: string) => {
     const url = URL.createObjectURL(blob);
     const a = document.createElement('a');
     a.href = url;
@@ -22,12 +31,18 @@ export const downloadFile = (content: string, fileName: string, mimeType: string
 
 /**
  * Exports chat history to a plain text file.
+ * Each message is stamped with the time it was sent, if known, and followed by its metadata.
  * @param messages The array of chat messages.
  */
 export const exportChatToTxt = (messages: Message[]) => {
-    const content = messages.map(msg => 
-        `[${new Date().toISOString()}] ${msg.sender.toUpperCase()}: ${msg.text}${msg.file ? ` (File: ${msg.file.name})` : ''}`
-    ).join('\n\n');
+    const content = messages.map(msg => {
+        const timestamp = msg.createdAt ? `[${new Date(msg.createdAt).toISOString()}] ` : '';
+        const files = msg.files?.length ? ` (Files: ${msg.files.map(f => f.name).join(', ')})` : '';
+        const metadata = getMessageMetadata(msg)
+            .map(item => `${item.label}: ${item.value}`)
+            .join(' | ');
+        return `${timestamp}${msg.sender.toUpperCase()}: ${msg.text}${files}${metadata ? `\n  (${metadata})` : ''}`;
+    }).join('\n\n');
     downloadFile(content, 'chat-history.txt', 'text/plain;charset=utf-8');
 };
 
@@ -36,13 +51,268 @@ export const exportChatToTxt = (messages: Message[]) => {
  * @param messages The array of chat messages.
  */
 export const exportChatToCsv = (messages: Message[]) => {
-    const header = 'Sender,Message,Attachment\n';
-    const rows = messages.map(msg => 
-        `"${msg.sender}","${msg.text.replace(/"/g, '""')}","${msg.file ? msg.file.name.replace(/"/g, '""') : ''}"`
-    ).join('\n');
+    const header = 'Timestamp,Sender,Model,Message,Attachments,Time to First Token (ms),Latency (ms),Prompt Tokens,Completion Tokens\n';
+    const rows = messages.map(msg => [
+        msg.createdAt ? new Date(msg.createdAt).toISOString() : '',
+        msg.sender,
+        msg.model || '',
+        `"${msg.text.replace(/"/g, '""')}"`,
+        `"${(msg.files || []).map(f => f.name).join('; ').replace(/"/g, '""')}"`,
+        msg.metrics?.timeToFirstTokenMs ?? '',
+        msg.metrics?.latencyMs ?? '',
+        msg.metrics?.usage?.promptTokens ?? '',
+        msg.metrics?.usage?.completionTokens ?? '',
+    ].join(',')).join('\n');
     downloadFile(header + rows, 'chat-history.csv', 'text/csv;charset=utf-8');
 };
 
+// Turns a conversation title into a safe file name stem.
+const toFileName = (title: string, fallback: string) =>
+    title.trim().replace(/[^\w\- ]+/g, '').replace(/\s+/g, '-').toLowerCase().slice(0, 60) || fallback;
+
+const formatSender = (msg: Message) =>
+    msg.sender === 'user' ? 'User' : `Assistant${msg.model ? ` (${AI_MODEL_LABELS[msg.model]})` : ''}`;
+
+/**
+ * Exports chat history to a Markdown file. Message text is written as-is, so the
+ * formatting of replies (lists, tables, code blocks) is kept.
+ * @param messages The array of chat messages.
+ * @param title The conversation title, used as the document heading and file name.
+ */
+export const exportChatToMarkdown = (messages: Message[], title: string) => {
+    const sections = messages.map(msg => {
+        const heading = `### ${msg.sender === 'user' ? 'User' : 'Assistant'}${msg.createdAt ? ` · ${new Date(msg.createdAt).toLocaleString()}` : ''}`;
+        const files = msg.files?.length
+            ? `\n\n> Attachments: ${msg.files.map(f => `\`${f.name}\` (${formatBytes(f.size, 1)})`).join(', ')}`
+            : '';
+        const metadata = getMessageMetadata(msg)
+            .map(item => `${item.label}: ${item.value}`)
+            .join(' · ');
+        return `${heading}\n\n${msg.text}${files}${metadata ? `\n\n_${metadata}_` : ''}`;
+    });
+    const content = `# ${title}\n\n${sections.join('\n\n---\n\n')}\n`;
+    downloadFile(content, `${toFileName(title, 'chat-history')}.md`, 'text/markdown;charset=utf-8');
+};
+
+/**
+ * Exports chat history to a PDF file, using the same jsPDF and table layout as the analysis report.
+ * @param messages The array of chat messages.
+ * @param title The conversation title, used as the document heading and file name.
+ */
+export const exportChatToPdf = (messages: Message[], title: string) => {
+    const doc = new jsPDF();
+
+    doc.setFontSize(18);
+    doc.text(title, 14, 20);
+    doc.setFontSize(11);
+    doc.setTextColor(100);
+    doc.text(`Exported ${new Date().toLocaleString()}`, 14, 28);
+
+    autoTable(doc, {
+        startY: 34,
+        head: [['From', 'Message']],
+        body: messages.map(msg => {
+            const files = msg.files?.length ? `\n\nAttachments: ${msg.files.map(f => f.name).join(', ')}` : '';
+            const sent = msg.createdAt ? `\n${new Date(msg.createdAt).toLocaleString()}` : '';
+            return [`${formatSender(msg)}${sent}`, `${msg.text}${files}`];
+        }),
+        theme: 'striped',
+        headStyles: { fillColor: [41, 128, 185] },
+        styles: { fontSize: 10, cellPadding: 3 },
+        columnStyles: {
+            0: { fontStyle: 'bold', cellWidth: 40 },
+            1: { cellWidth: 'auto' },
+        },
+        didDrawPage: (data: any) => {
+            doc.setFontSize(10);
+            doc.text(`Page ${data.pageNumber}`, data.settings.margin.left, doc.internal.pageSize.height - 10);
+        }
+    });
+
+    doc.save(`${toFileName(title, 'chat-history')}.pdf`);
+};
+
+const CONVERSATION_EXPORT_FORMAT = 'snarecore.conversation';
+const CONVERSATION_EXPORT_VERSION = 1;
+
+interface ConversationExport {
+    format: typeof CONVERSATION_EXPORT_FORMAT;
+    version: number;
+    exportedAt: string;
+    conversation: Conversation;
+}
+
+/**
+ * Exports a whole conversation, every branch and all message metadata included,
+ * to a JSON file that `parseConversationExport` can read back.
+ * Attachment contents stay on this device; only their metadata is exported.
+ * @param conversation The conversation to export.
+ */
+export const exportConversationToJson = (conversation: Conversation) => {
+    const payload: ConversationExport = {
+        format: CONVERSATION_EXPORT_FORMAT,
+        version: CONVERSATION_EXPORT_VERSION,
+        exportedAt: new Date().toISOString(),
+        conversation,
+    };
+    downloadFile(JSON.stringify(payload, null, 2), `${toFileName(conversation.title, 'conversation')}.json`, 'application/json');
+};
+
+type JsonObject = Record<string, unknown>;
+
+const isObject = (value: unknown): value is JsonObject => typeof value === 'object' && value !== null && !Array.isArray(value);
+const isString = (value: unknown): value is string => typeof value === 'string';
+const isNumber = (value: unknown): value is number => typeof value === 'number' && Number.isFinite(value);
+const isBoolean = (value: unknown): value is boolean => typeof value === 'boolean';
+const isArrayOf = <T>(isItem: (value: unknown) => value is T) =>
+    (value: unknown): value is T[] => Array.isArray(value) && value.every(isItem);
+const isStringArray = isArrayOf(isString);
+
+// An optional field is kept only if it has the expected shape; anything else is left out.
+const optional = <T>(value: unknown, isValid: (value: unknown) => value is T): T | undefined =>
+    isValid(value) ? value : undefined;
+
+const isAiModel = (value: unknown): value is AiModel => AI_MODELS.some(model => model === value);
+
+const isMessageFile = (value: unknown): value is MessageFile =>
+    isObject(value) && isString(value.name) && isString(value.type) && isNumber(value.size)
+    && (value.id === undefined || isString(value.id));
+
+const isCitation = (value: unknown): value is Citation =>
+    isObject(value)
+    && (value.title === undefined || isString(value.title))
+    && (value.url === undefined || isString(value.url))
+    && (value.start === undefined || isNumber(value.start))
+    && (value.quote === undefined || isString(value.quote));
+
+const isTokenUsage = (value: unknown): value is TokenUsage =>
+    isObject(value) && isNumber(value.promptTokens) && isNumber(value.completionTokens);
+
+const isMessageMetrics = (value: unknown): value is MessageMetrics =>
+    isObject(value)
+    && (value.timeToFirstTokenMs === undefined || isNumber(value.timeToFirstTokenMs))
+    && (value.latencyMs === undefined || isNumber(value.latencyMs))
+    && (value.usage === undefined || isTokenUsage(value.usage));
+
+const isMessageFeedback = (value: unknown): value is MessageFeedback =>
+    isObject(value) && (value.rating === 'up' || value.rating === 'down')
+    && (value.comment === undefined || isString(value.comment));
+
+const isModelConfig = (value: unknown): value is AIModelConfig =>
+    isObject(value) && isString(value.systemPrompt) && isNumber(value.temperature) && isNumber(value.maxTokens);
+
+const isContextSummary = (value: unknown): value is ContextSummary =>
+    isObject(value) && isString(value.text) && isStringArray(value.messageIds)
+    && isString(value.throughMessageId) && isNumber(value.createdAt);
+
+/**
+ * Rebuilds an exported message from its known fields.
+ * @returns The message, or null if its ID, text or sender is missing.
+ */
+const toMessage = (value: unknown): Message | null => {
+    if (!isObject(value) || !isString(value.id) || !isString(value.text)) return null;
+    if (value.sender !== 'user' && value.sender !== 'model') return null;
+    return {
+        id: value.id,
+        text: value.text,
+        sender: value.sender,
+        files: optional(value.files, isArrayOf(isMessageFile)),
+        model: optional(value.model, isAiModel),
+        generationConfig: optional(value.generationConfig, isModelConfig),
+        personaId: optional(value.personaId, isString),
+        isError: optional(value.isError, isBoolean),
+        interrupted: optional(value.interrupted, isBoolean),
+        interruptionReason: optional(value.interruptionReason, isString),
+        parentId: value.parentId === null ? null : optional(value.parentId, isString),
+        createdAt: optional(value.createdAt, isNumber),
+        metrics: optional(value.metrics, isMessageMetrics),
+        citations: optional(value.citations, isArrayOf(isCitation)),
+        feedback: optional(value.feedback, isMessageFeedback),
+        pending: optional(value.pending, isBoolean),
+        pinned: optional(value.pinned, isBoolean),
+    };
+};
+
+// Every reply and follow-up must point at a message that is part of the export.
+const hasMissingParent = (messages: Message[]) => {
+    const ids = new Set(messages.map(msg => msg.id));
+    return messages.some(msg => msg.parentId != null && !ids.has(msg.parentId));
+};
+
+/**
+ * Reads a conversation from the contents of a file written by `exportConversationToJson`.
+ * Only known fields are read back, and references between messages must resolve.
+ * @param json The file contents.
+ * @returns The conversation as it was exported.
+ * @throws Error with a user-facing message if the file isn't a valid export.
+ */
+export const parseConversationExport = (json: string): Conversation => {
+    let payload: unknown;
+    try {
+        payload = JSON.parse(json);
+    } catch {
+        throw new Error('The file is not valid JSON.');
+    }
+    if (!isObject(payload) || payload.format !== CONVERSATION_EXPORT_FORMAT || !isObject(payload.conversation)) {
+        throw new Error('The file is not an exported conversation.');
+    }
+    if (isNumber(payload.version) && payload.version > CONVERSATION_EXPORT_VERSION) {
+        throw new Error('The conversation was exported by a newer version of the app.');
+    }
+    const { conversation } = payload;
+    const messages = Array.isArray(conversation.messages) ? conversation.messages.map(toMessage) : null;
+    if (!isString(conversation.id) || !messages || !messages.every((msg): msg is Message => msg !== null) || hasMissingParent(messages)) {
+        throw new Error('The exported conversation is incomplete or corrupted.');
+    }
+    const messageIds = new Set(messages.map(msg => msg.id));
+
+    // Branch selections and the summary only carry over if the messages they point to do.
+    const activeBranches = isObject(conversation.activeBranches)
+        ? Object.fromEntries(Object.entries(conversation.activeBranches)
+            .filter((entry): entry is [string, string] => isString(entry[1]) && messageIds.has(entry[1])))
+        : undefined;
+    const contextSummary = optional(conversation.contextSummary, isContextSummary);
+
+    return {
+        id: conversation.id,
+        title: isString(conversation.title) && conversation.title.trim() ? conversation.title : 'Imported Conversation',
+        isTitleCustom: optional(conversation.isTitleCustom, isBoolean),
+        tags: isStringArray(conversation.tags) ? normalizeTags(conversation.tags) : undefined,
+        model: isAiModel(conversation.model) ? conversation.model : DEFAULT_AI_MODEL,
+        messages,
+        activeBranches,
+        personaId: optional(conversation.personaId, isString),
+        contextSummary: contextSummary && messageIds.has(contextSummary.throughMessageId) ? contextSummary : undefined,
+        createdAt: Number(conversation.createdAt) || Date.now(),
+        updatedAt: Number(conversation.updatedAt) || Date.now(),
+    };
+};
+
+/**
+ * Exports reply ratings to a CSV file for review outside the app.
+ * @param feedback The ratings to export, e.g. the currently filtered ones.
+ */
+export const exportFeedbackToCsv = (feedback: ResponseFeedback[]) => {
+    const quote = (value: string) => `"${value.replace(/"/g, '""')}"`;
+    const header = 'Timestamp,User,Model,Rating,Comment,System Prompt Version,System Prompt,Temperature,Max Tokens,Persona ID,Conversation ID,Message ID,Response\n';
+    const rows = feedback.map(item => [
+        new Date(item.createdAt).toISOString(),
+        quote(item.userName || ''),
+        item.model,
+        item.rating,
+        quote(item.comment || ''),
+        item.systemPromptVersion,
+        quote(item.config.systemPrompt),
+        item.config.temperature,
+        item.config.maxTokens,
+        item.personaId || '',
+        item.conversationId,
+        item.messageId,
+        quote(item.responseText),
+    ].join(',')).join('\n');
+    downloadFile(header + rows, 'feedback.csv', 'text/csv;charset=utf-8');
+};
+
 /**
  * Exports video transcription to a CSV file.
  * @param result The video analysis result object.
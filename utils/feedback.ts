@@ -0,0 +1,12 @@
+/**
+ * A short, stable identifier for a system prompt (32-bit FNV-1a, as 8 hex digits).
+ * Ratings store it so results can be grouped by prompt version.
+ */
+export const getSystemPromptVersion = (systemPrompt: string) => {
+    let hash = 0x811c9dc5;
+    for (let i = 0; i < systemPrompt.length; i++) {
+        hash ^= systemPrompt.charCodeAt(i);
+        hash = Math.imul(hash, 0x01000193);
+    }
+    return (hash >>> 0).toString(16).padStart(8, '0');
+};
@@ -0,0 +1,99 @@
+import type { Conversation, NavigationTarget, VideoAnalysisHistoryItem } from '../types';
+
+export type SearchSource = 'all' | 'chat' | 'video';
+export type SearchSender = 'any' | 'user' | 'model';
+
+export interface SearchFilters {
+    source: SearchSource;
+    sender: SearchSender; // Only chat messages have a sender, so anything but 'any' excludes transcripts
+    from?: number; // Unix ms, inclusive
+    to?: number; // Unix ms, inclusive
+}
+
+export interface SearchResult {
+    key: string;
+    source: 'chat' | 'video';
+    title: string; // Conversation title or video source name
+    snippet: string;
+    timestamp: number;
+    sender?: 'user' | 'model';
+    segmentStart?: number; // Seconds into the video, for transcript results
+    target: NavigationTarget;
+}
+
+// How much text to show on each side of the first match.
+const SNIPPET_CONTEXT_CHARS = 60;
+
+export const getSearchTerms = (query: string) => query.toLowerCase().split(/\s+/).filter(Boolean);
+
+const matchesAllTerms = (text: string, terms: string[]) => {
+    const lowerText = text.toLowerCase();
+    return terms.every(term => lowerText.includes(term));
+};
+
+const buildSnippet = (text: string, terms: string[]) => {
+    const lowerText = text.toLowerCase();
+    const matchIndex = Math.min(...terms.map(term => lowerText.indexOf(term)).filter(index => index >= 0));
+    const start = Math.max(0, matchIndex - SNIPPET_CONTEXT_CHARS);
+    const end = Math.min(text.length, matchIndex + SNIPPET_CONTEXT_CHARS * 2);
+    const snippet = text.slice(start, end).replace(/\s+/g, ' ').trim();
+    return `${start > 0 ? '…' : ''}${snippet}${end < text.length ? '…' : ''}`;
+};
+
+const isInDateRange = (timestamp: number, filters: SearchFilters) =>
+    (filters.from === undefined || timestamp >= filters.from) && (filters.to === undefined || timestamp <= filters.to);
+
+/**
+ * Searches every message of every conversation (all branches) and every
+ * transcript segment in the video analysis history. A result must contain all
+ * words of the query. Results are sorted newest first.
+ */
+export const searchEverything = (
+    query: string,
+    conversations: Conversation[],
+    videoHistory: VideoAnalysisHistoryItem[],
+    filters: SearchFilters
+): SearchResult[] => {
+    const terms = getSearchTerms(query);
+    if (terms.length === 0) return [];
+    const results: SearchResult[] = [];
+
+    if (filters.source !== 'video') {
+        conversations.forEach(conversation => {
+            conversation.messages.forEach(msg => {
+                const timestamp = msg.createdAt ?? conversation.createdAt;
+                if (msg.isError || (filters.sender !== 'any' && msg.sender !== filters.sender)) return;
+                if (!isInDateRange(timestamp, filters) || !matchesAllTerms(msg.text, terms)) return;
+                results.push({
+                    key: `chat-${conversation.id}-${msg.id}`,
+                    source: 'chat',
+                    title: conversation.title,
+                    snippet: buildSnippet(msg.text, terms),
+                    timestamp,
+                    sender: msg.sender,
+                    target: { type: 'message', conversationId: conversation.id, messageId: msg.id },
+                });
+            });
+        });
+    }
+
+    if (filters.source !== 'chat' && filters.sender === 'any') {
+        videoHistory.forEach(item => {
+            if (!isInDateRange(item.timestamp, filters)) return;
+            item.result.transcription.forEach((segment, segmentIndex) => {
+                if (!matchesAllTerms(segment.text, terms)) return;
+                results.push({
+                    key: `video-${item.id}-${segmentIndex}`,
+                    source: 'video',
+                    title: item.sourceName,
+                    snippet: buildSnippet(segment.text, terms),
+                    timestamp: item.timestamp,
+                    segmentStart: segment.start,
+                    target: { type: 'segment', historyId: item.id, segmentIndex },
+                });
+            });
+        });
+    }
+
+    return results.sort((a, b) => b.timestamp - a.timestamp);
+};
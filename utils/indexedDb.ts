@@ -0,0 +1,67 @@
+const DB_NAME = 'snarecore';
+const DB_VERSION = 2;
+
+/**
+ * Object stores created in the app's IndexedDB database. Adding a store
+ * requires bumping `DB_VERSION` so existing databases are upgraded.
+ */
+const STORE_NAMES = ['attachments', 'outbox'] as const;
+
+export type StoreName = typeof STORE_NAMES[number];
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDatabase = (): Promise<IDBDatabase> => {
+    if (!dbPromise) {
+        dbPromise = new Promise((resolve, reject) => {
+            const request = indexedDB.open(DB_NAME, DB_VERSION);
+            request.onupgradeneeded = () => {
+                const db = request.result;
+                STORE_NAMES.forEach(name => {
+                    if (!db.objectStoreNames.contains(name)) {
+                        db.createObjectStore(name);
+                    }
+                });
+            };
+            request.onsuccess = () => resolve(request.result);
+            request.onerror = () => {
+                dbPromise = null; // Allow a later retry
+                reject(request.error);
+            };
+        });
+    }
+    return dbPromise;
+};
+
+const promisifyRequest = <T>(request: IDBRequest<T>): Promise<T> =>
+    new Promise((resolve, reject) => {
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error);
+    });
+
+/**
+ * Runs a single request against an object store in its own transaction.
+ */
+const withStore = async <T>(
+    storeName: StoreName,
+    mode: IDBTransactionMode,
+    run: (store: IDBObjectStore) => IDBRequest<T>
+): Promise<T> => {
+    const db = await openDatabase();
+    const store = db.transaction(storeName, mode).objectStore(storeName);
+    return promisifyRequest(run(store));
+};
+
+export const idbGet = <T>(storeName: StoreName, key: IDBValidKey): Promise<T | undefined> =>
+    withStore(storeName, 'readonly', store => store.get(key) as IDBRequest<T | undefined>);
+
+export const idbGetAll = <T>(storeName: StoreName): Promise<T[]> =>
+    withStore(storeName, 'readonly', store => store.getAll() as IDBRequest<T[]>);
+
+export const idbPut = async (storeName: StoreName, key: IDBValidKey, value: unknown): Promise<void> => {
+    await withStore(storeName, 'readwrite', store => store.put(value, key));
+};
+
+export const idbDelete = async (storeName: StoreName, key: IDBValidKey): Promise<void> => {
+    await withStore(storeName, 'readwrite', store => store.delete(key));
+};
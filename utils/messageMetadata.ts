@@ -0,0 +1,32 @@
+import type { Message } from '../types';
+import { AI_MODEL_LABELS } from './aiModels';
+
+export const formatLatency = (ms: number) =>
+    ms < 1000 ? `${Math.round(ms)} ms` : `${(ms / 1000).toFixed(1)} s`;
+
+export interface MessageMetadataItem {
+    label: string;
+    value: string;
+}
+
+/**
+ * Lists what is known about how a message was produced, in display order.
+ * Fields that weren't recorded are left out; the send time is formatted separately.
+ */
+export const getMessageMetadata = (message: Message): MessageMetadataItem[] => {
+    const items: MessageMetadataItem[] = [];
+    const { metrics } = message;
+    if (message.model) {
+        items.push({ label: 'Model', value: AI_MODEL_LABELS[message.model] });
+    }
+    if (metrics?.timeToFirstTokenMs !== undefined) {
+        items.push({ label: 'First token', value: formatLatency(metrics.timeToFirstTokenMs) });
+    }
+    if (metrics?.latencyMs !== undefined) {
+        items.push({ label: 'Total time', value: formatLatency(metrics.latencyMs) });
+    }
+    if (metrics?.usage) {
+        items.push({ label: 'Tokens', value: `${metrics.usage.promptTokens} prompt / ${metrics.usage.completionTokens} completion` });
+    }
+    return items;
+};
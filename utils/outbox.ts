@@ -0,0 +1,80 @@
+import type { AiModel, Conversation, Message } from '../types';
+import { idbGetAll, idbPut, idbDelete } from './indexedDb';
+import { selectBranches } from './chatTree';
+
+/**
+ * A user message that couldn't be sent because the app was offline. The message
+ * itself stays in its conversation, flagged `pending`; the outbox keeps the order
+ * in which queued messages have to be sent once the connection is back.
+ */
+export interface OutboxEntry {
+    messageId: string;
+    conversationId: string;
+    model: AiModel;
+    text: string;
+    queuedAt: number;
+}
+
+/**
+ * Whether a failed request looks like a lost connection rather than an error
+ * reported by the server. `fetch` rejects with a `TypeError` when it can't connect.
+ */
+export const isConnectionError = (error: unknown) =>
+    !navigator.onLine || error instanceof TypeError;
+
+export const getQueuedMessages = async (): Promise<OutboxEntry[]> => {
+    const entries = await idbGetAll<OutboxEntry>('outbox');
+    return entries.sort((a, b) => a.queuedAt - b.queuedAt);
+};
+
+export const queueMessage = (entry: OutboxEntry): Promise<void> => idbPut('outbox', entry.messageId, entry);
+
+export const removeQueuedMessage = (messageId: string): Promise<void> => idbDelete('outbox', messageId);
+
+const reparentChildren = (messages: Message[], fromId: string, toId: string) =>
+    messages.map(msg => (msg.parentId === fromId && msg.pending ? { ...msg, parentId: toId } : msg));
+
+/**
+ * Marks a queued message as sent by adding its (empty) reply. Messages queued after
+ * it were chained to it, so they move under the reply to keep the thread in order.
+ */
+export const attachReply = (conversation: Conversation, userMessageId: string, reply: Message): Conversation => {
+    const messages = [
+        ...reparentChildren(conversation.messages, userMessageId, reply.id)
+            .map(msg => (msg.id === userMessageId ? { ...msg, pending: undefined } : msg)),
+        reply,
+    ];
+    const updated = { ...conversation, messages };
+    const movedChildren = messages.filter(msg => msg.parentId === reply.id);
+    return { ...updated, activeBranches: selectBranches(updated, [reply, ...movedChildren]) };
+};
+
+/**
+ * Undoes `attachReply` when sending failed for lack of a connection: the reply is
+ * dropped and the message goes back to waiting in the outbox.
+ */
+export const detachReply = (conversation: Conversation, userMessageId: string, replyId: string): Conversation => {
+    const messages = reparentChildren(conversation.messages, replyId, userMessageId)
+        .filter(msg => msg.id !== replyId)
+        .map(msg => (msg.id === userMessageId ? { ...msg, pending: true } : msg));
+    const updated = { ...conversation, messages };
+    const movedChildren = messages.filter(msg => msg.parentId === userMessageId);
+    return { ...updated, activeBranches: selectBranches(updated, movedChildren) };
+};
+
+/**
+ * Removes a queued message that the user gave up on. Messages queued after it
+ * are chained to it, so they move up to its parent.
+ */
+export const discardQueuedMessage = (conversation: Conversation, messageId: string): Conversation => {
+    const discarded = conversation.messages.find(msg => msg.id === messageId);
+    if (!discarded) return conversation;
+    const parentId = discarded.parentId ?? null;
+    const messages = conversation.messages
+        .filter(msg => msg.id !== messageId)
+        .map(msg => (msg.parentId === messageId ? { ...msg, parentId } : msg));
+    const updated = { ...conversation, messages };
+    const activeBranches = selectBranches(updated, messages.filter(msg => msg.parentId === parentId && msg.pending));
+    delete activeBranches[messageId];
+    return { ...updated, activeBranches };
+};
@@ -0,0 +1,30 @@
+import type { AIModelConfig, Persona, PersonaLimits } from '../types';
+
+// Used until the backend limits load, and if they can't be loaded. Matches the range the AI config editor allows.
+export const DEFAULT_PERSONA_LIMITS: PersonaLimits = {
+    minTemperature: 0,
+    maxTemperature: 2,
+    maxSystemPromptLength: 4000,
+};
+
+const clamp = (value: number, min: number, max: number) => Math.min(Math.max(value, min), max);
+
+/**
+ * Caps a persona's values to the allowed ranges. Personas saved before the
+ * limits were tightened are still usable, just with the capped values.
+ */
+export const applyPersonaLimits = <T extends Pick<Persona, 'systemPrompt' | 'temperature'>>(persona: T, limits: PersonaLimits): T => ({
+    ...persona,
+    systemPrompt: persona.systemPrompt.slice(0, limits.maxSystemPromptLength),
+    temperature: clamp(persona.temperature, limits.minTemperature, limits.maxTemperature),
+});
+
+/**
+ * The model configuration to send for a conversation: the global one, with the
+ * persona's system prompt and temperature in its place when a persona is applied.
+ */
+export const getPersonaConfig = (config: AIModelConfig, persona: Persona | null | undefined, limits: PersonaLimits): AIModelConfig => {
+    if (!persona) return config;
+    const { systemPrompt, temperature } = applyPersonaLimits(persona, limits);
+    return { ...config, systemPrompt, temperature };
+};
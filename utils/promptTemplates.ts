@@ -0,0 +1,14 @@
+// Matches `{{name}}` placeholders; whitespace inside the braces is ignored.
+const VARIABLE_REGEX = /\{\{\s*([\w.-]+)\s*\}\}/g;
+
+/**
+ * Lists the distinct variable names in a template, in order of first appearance.
+ */
+export const extractTemplateVariables = (content: string): string[] =>
+    Array.from(new Set(Array.from(content.matchAll(VARIABLE_REGEX), match => match[1])));
+
+/**
+ * Replaces each placeholder with its value. Variables without a value are left as written.
+ */
+export const fillTemplate = (content: string, values: Record<string, string>) =>
+    content.replace(VARIABLE_REGEX, (placeholder, name: string) => values[name] ?? placeholder);
@@ -0,0 +1,117 @@
+/**
+ * Lets a command act on the chat box it was typed in.
+ */
+export interface CommandInput {
+    attachFiles: (files: File[]) => void;
+}
+
+/**
+ * A value offered for a command's argument, e.g. a model or persona name.
+ */
+export interface CommandOption {
+    value: string;
+    label: string;
+}
+
+interface CommandInfo {
+    name: string; // Lowercase, without the slash
+    argument?: string; // Shown in the menu, e.g. "<model>"; omitted for commands that take none
+    description: string;
+}
+
+/**
+ * A command typed as `/name argument` in the chat box. `Context` is whatever the
+ * host view gives its commands to act on; see `bindCommands`.
+ */
+export interface SlashCommand<Context> extends CommandInfo {
+    getOptions?: (context: Context) => CommandOption[]; // Offered as completions for the argument
+    run: (argument: string, context: Context, input: CommandInput) => void | Promise<void>;
+}
+
+/**
+ * A command bound to its context, as the chat box receives it.
+ */
+export interface BoundCommand extends CommandInfo {
+    getOptions?: () => CommandOption[];
+    run: (argument: string, input: CommandInput) => void | Promise<void>;
+}
+
+/**
+ * Thrown by a command to tell the user why it couldn't run, e.g. an unknown argument.
+ */
+export class CommandError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'CommandError';
+    }
+}
+
+/**
+ * An entry of the autocomplete menu. Picking it replaces the input with `completion`,
+ * and runs it straight away when `isComplete`.
+ */
+export interface CommandSuggestion {
+    key: string;
+    label: string;
+    description: string;
+    completion: string;
+    isComplete: boolean;
+}
+
+const COMMAND_REGEX = /^\/(\S*)(?:\s+(.*))?$/s;
+
+/**
+ * Gives a set of commands the context they act on, so the chat box can run them without knowing it.
+ */
+export const bindCommands = <Context>(commands: SlashCommand<Context>[], context: Context): BoundCommand[] =>
+    commands.map(({ getOptions, run, ...info }) => ({
+        ...info,
+        getOptions: getOptions && (() => getOptions(context)),
+        run: (argument, input) => run(argument, context, input),
+    }));
+
+/**
+ * Finds the command `text` invokes. Text whose first word isn't a known command
+ * (such as a path like "/etc/hosts") is an ordinary message.
+ */
+export const matchCommand = (commands: BoundCommand[], text: string) => {
+    const match = text.trim().match(COMMAND_REGEX);
+    const command = match && commands.find(c => c.name === match[1].toLowerCase());
+    return command ? { command, argument: (match[2] ?? '').trim() } : null;
+};
+
+/**
+ * The menu entries for what has been typed so far: matching commands while the
+ * name is being typed, then the matching options for its argument.
+ */
+export const getCommandSuggestions = (commands: BoundCommand[], text: string): CommandSuggestion[] => {
+    const match = !text.includes('\n') && text.match(COMMAND_REGEX);
+    if (!match) return [];
+    const [, name, argument] = match;
+
+    if (argument === undefined) {
+        const prefix = name.toLowerCase();
+        return commands
+            .filter(command => command.name.startsWith(prefix))
+            .map(command => ({
+                key: command.name,
+                label: `/${command.name}${command.argument ? ` ${command.argument}` : ''}`,
+                description: command.description,
+                completion: command.argument ? `/${command.name} ` : `/${command.name}`,
+                isComplete: !command.argument,
+            }));
+    }
+
+    const command = commands.find(c => c.name === name.toLowerCase());
+    if (!command?.getOptions) return [];
+    const query = (argument ?? '').trim().toLowerCase();
+    return command.getOptions()
+        .filter(option => option.value.toLowerCase().startsWith(query) || option.label.toLowerCase().startsWith(query))
+        .map(option => ({
+            key: option.value,
+            label: option.value,
+            description: option.label,
+            completion: `/${command.name} ${option.value}`,
+            isComplete: true,
+        }));
+};
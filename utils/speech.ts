@@ -0,0 +1,64 @@
+/**
+ * How replies are read aloud. Stored per browser, since the available voices
+ * depend on the device.
+ */
+export interface SpeechPreferences {
+    voiceURI: string | null; // null uses the browser's default voice for `lang`
+    lang: string; // BCP 47 tag, e.g. "en-US"
+    rate: number; // 0.5 (slow) to 2 (fast)
+    readWhileStreaming: boolean; // Read new replies sentence by sentence as they arrive
+}
+
+export const SPEECH_PREFERENCES_STORAGE_KEY = 'speechPreferences';
+
+export const MIN_SPEECH_RATE = 0.5;
+export const MAX_SPEECH_RATE = 2;
+
+export const DEFAULT_SPEECH_PREFERENCES: SpeechPreferences = {
+    voiceURI: null,
+    lang: typeof navigator !== 'undefined' && navigator.language ? navigator.language : 'en-US',
+    rate: 1,
+    readWhileStreaming: false,
+};
+
+export const isSpeechSynthesisSupported = () => typeof window !== 'undefined' && 'speechSynthesis' in window;
+
+/**
+ * Turns Markdown into plain text that reads naturally: code blocks are skipped,
+ * links and images are read by their text, and formatting marks are dropped.
+ */
+export const toSpeakableText = (markdown: string) =>
+    markdown
+        .replace(/```[\s\S]*?```/g, ' Code block omitted. ')
+        .replace(/`([^`]*)`/g, '$1')
+        .replace(/!?\[([^\]]*)\]\([^)]*\)/g, '$1')
+        .replace(/^\s{0,3}#{1,6}\s+(.+?)[.:]?\s*$/gm, '$1.') // Pause after headings
+        .replace(/^\s{0,3}(>|[-*+]|\d+\.)\s+/gm, '')
+        .replace(/\*\*|__|~~|\*/g, '')
+        .replace(/\s+/g, ' ')
+        .trim();
+
+/**
+ * Splits text into sentences. Some browsers stop reading long utterances part
+ * way through, so replies are spoken one sentence at a time.
+ */
+export const splitSentences = (text: string): string[] =>
+    (text.match(/[^.!?]+[.!?]+["')\]]*|[^.!?]+$/g) ?? []).map(sentence => sentence.trim()).filter(Boolean);
+
+/**
+ * The length of the part of a streaming reply that ends with a complete sentence
+ * or line, and so can be read already. Unfinished code blocks are held back.
+ */
+export const getCompleteSentencesLength = (text: string): number => {
+    let isInCodeBlock = false;
+    let end = 0;
+    for (const match of text.matchAll(/```|[.!?](?=\s)|\n/g)) {
+        if (match[0] === '```') {
+            isInCodeBlock = !isInCodeBlock;
+            if (!isInCodeBlock) end = match.index! + match[0].length;
+        } else if (!isInCodeBlock) {
+            end = match.index! + match[0].length;
+        }
+    }
+    return end;
+};
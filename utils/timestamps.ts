@@ -0,0 +1,41 @@
+/**
+ * Formats a position in a video as `mm:ss`, or `h:mm:ss` from one hour on.
+ */
+export const formatTimestamp = (totalSeconds: number) => {
+    const safeSeconds = Math.max(0, Math.floor(totalSeconds || 0));
+    const hours = Math.floor(safeSeconds / 3600);
+    const minutes = Math.floor((safeSeconds % 3600) / 60).toString().padStart(2, '0');
+    const seconds = (safeSeconds % 60).toString().padStart(2, '0');
+    return hours > 0 ? `${hours}:${minutes}:${seconds}` : `${minutes}:${seconds}`;
+};
+
+/**
+ * Parses `mm:ss` or `h:mm:ss` into seconds. Returns null for anything else.
+ */
+export const parseTimestamp = (timestamp: string): number | null => {
+    const parts = timestamp.trim().split(':');
+    if (parts.length < 2 || parts.length > 3 || parts.some(part => !/^\d+$/.test(part))) return null;
+    return parts.map(Number).reduce((total, part) => total * 60 + part, 0);
+};
+
+// Matches citations such as "[01:23]" or "[1:02:03]" that aren't already Markdown links.
+const CITATION_REGEX = /\[((?:\d{1,2}:)?\d{1,2}:\d{2})\](?!\()/g;
+
+// Link target used for timestamp citations; see `getTimestampFromHref`.
+const TIMESTAMP_HREF_PREFIX = '#t=';
+
+/**
+ * Turns `[mm:ss]` citations in Markdown into links that `MarkdownContent`
+ * can render as seek buttons.
+ */
+export const linkifyTimestampCitations = (markdown: string) =>
+    markdown.replace(CITATION_REGEX, (match, timestamp: string) => {
+        const seconds = parseTimestamp(timestamp);
+        return seconds === null ? match : `[${timestamp}](${TIMESTAMP_HREF_PREFIX}${seconds})`;
+    });
+
+export const getTimestampFromHref = (href?: string): number | null => {
+    if (!href?.startsWith(TIMESTAMP_HREF_PREFIX)) return null;
+    const seconds = Number(href.slice(TIMESTAMP_HREF_PREFIX.length));
+    return Number.isFinite(seconds) ? seconds : null;
+};
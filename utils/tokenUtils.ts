@@ -0,0 +1,44 @@
+import type { AiModel, AIModelConfig, Message } from '../types';
+
+/**
+ * The default number of tokens the conversation history (plus the new message)
+ * may occupy in a chat request.
+ */
+export const DEFAULT_CONTEXT_BUDGET = 8000;
+
+interface ModelTokenProfile {
+    contextWindow: number; // Tokens the provider accepts per request, prompt and reply together
+    charsPerToken: number; // Average for English text with the provider's tokenizer
+}
+
+export const MODEL_TOKEN_PROFILES: Record<AiModel, ModelTokenProfile> = {
+    gemini: { contextWindow: 1_048_576, charsPerToken: 4 },
+    openai: { contextWindow: 128_000, charsPerToken: 4 },
+    anthropic: { contextWindow: 200_000, charsPerToken: 3.5 },
+};
+
+// A rough estimate; the backend reports the real counts in `MessageMetrics` once a reply is done.
+export const estimateTokens = (text: string, model: AiModel) => Math.ceil(text.length / MODEL_TOKEN_PROFILES[model].charsPerToken);
+
+// Attachments are sent by reference, so only their names count towards the budget.
+export const estimateMessageTokens = (message: Message, model: AiModel) =>
+    estimateTokens(message.text, model) + (message.files || []).reduce((sum, file) => sum + estimateTokens(file.name, model), 0);
+
+// Error notices and empty replies are never sent as context.
+export const isContextMessage = (message: Message) =>
+    !message.isError && (!!message.text.trim() || (message.files?.length ?? 0) > 0);
+
+export const estimateHistoryTokens = (history: Message[], model: AiModel) =>
+    history.filter(isContextMessage).reduce((sum, message) => sum + estimateMessageTokens(message, model), 0);
+
+/**
+ * The tokens a request's history may use: the default budget, or what is left of the
+ * provider's context window after the reply (`maxTokens`) and system prompt if that is less.
+ */
+export const getContextBudget = (model: AiModel, config?: AIModelConfig) => {
+    if (!config) return DEFAULT_CONTEXT_BUDGET;
+    const available = MODEL_TOKEN_PROFILES[model].contextWindow - config.maxTokens - estimateTokens(config.systemPrompt, model);
+    return Math.max(0, Math.min(DEFAULT_CONTEXT_BUDGET, available));
+};
+
+export const formatTokenCount = (tokens: number) => (tokens >= 1000 ? `${(tokens / 1000).toFixed(1)}k` : String(tokens));
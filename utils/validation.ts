@@ -32,4 +32,31 @@ export const validateVideoUrl = (url: string): string | null => {
 
   // If all checks pass, the URL is considered valid for submission.
   return null;
-};
\ No newline at end of file
+};
+
+export const MAX_ATTACHMENTS = 5;
+export const MAX_ATTACHMENT_SIZE = 20 * 1024 * 1024; // 20 MB
+
+const ALLOWED_ATTACHMENT_TYPES = [/^image\//, /^text\//, /^application\/pdf$/, /^application\/json$/];
+// Some platforms report an empty MIME type for plain-text formats, so fall back to the extension.
+const ALLOWED_ATTACHMENT_EXTENSIONS = ['.txt', '.md', '.csv', '.json', '.log'];
+
+/**
+ * Validates a file before it is attached to a chat message.
+ *
+ * @param file The file to validate.
+ * @returns An error message string if the file can't be attached, otherwise null.
+ */
+export const validateAttachment = (file: File): string | null => {
+  const isAllowedType = ALLOWED_ATTACHMENT_TYPES.some(pattern => pattern.test(file.type))
+    || ALLOWED_ATTACHMENT_EXTENSIONS.some(ext => file.name.toLowerCase().endsWith(ext));
+  if (!isAllowedType) {
+    return `"${file.name}" is not a supported file type. Attach images, PDFs or text files.`;
+  }
+
+  if (file.size > MAX_ATTACHMENT_SIZE) {
+    return `"${file.name}" is larger than ${MAX_ATTACHMENT_SIZE / (1024 * 1024)} MB.`;
+  }
+
+  return null;
+};